@@ -2,40 +2,96 @@
 
 import { useState, useCallback, useRef } from "react";
 import { Plus, Trash2, Edit2, Check, X, ChevronRight, AlertTriangle, FileText, Loader2 } from "lucide-react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DocumentUploader } from "@/components/sound";
-import { NCCurveChart } from "@/components/sound/NCCurveChart";
+import { NCCurveChart, type CurveFamily } from "@/components/sound/NCCurveChart";
 import { ComplianceChecker } from "@/components/sound/ComplianceChecker";
+import { RoomEffectCalculator } from "@/components/sound/RoomEffectCalculator";
+import { PathCalculator, type PathElementEntry, type PathSource } from "@/components/sound/PathCalculator";
+import { BreakoutCalculator } from "@/components/sound/BreakoutCalculator";
+import { DiffuserCalculator } from "@/components/sound/DiffuserCalculator";
+import { AHRI885Calculator } from "@/components/sound/AHRI885Calculator";
+import { FanLawScaler } from "@/components/sound/FanLawScaler";
+import { FanSoundEstimator } from "@/components/sound/FanSoundEstimator";
+import { BackgroundCorrection } from "@/components/sound/BackgroundCorrection";
+import { OutdoorCalculator } from "@/components/sound/OutdoorCalculator";
 import {
   convertSoundMeasurement,
   formatSoundValue,
   SoundMeasurement,
   OctaveBandData,
   OCTAVE_BAND_FREQUENCIES,
+  EXTENDED_OCTAVE_BAND_FREQUENCIES,
+  getBandFrequencies,
+  ThirdOctaveBandData,
+  THIRD_OCTAVE_BAND_FREQUENCIES,
+  thirdOctaveToOctaveBands,
   exceedsNC70,
   getMaxNC70Excess,
   interpolateNCCurve,
+  getNeighborNCCurves,
+  NR_CURVES,
+  formatRCRating,
+  formatNCBRating,
+  RC_QUALITY_LABELS,
+  calculateLowFrequencyImbalance,
+  LOW_FREQUENCY_IMBALANCE_THRESHOLD,
+  SPECTRUM_TEMPLATES,
+  EquipmentType,
+  FanOperatingPoint,
+  parseOperatingPoint,
+  addOctaveBands,
+  averageOctaveBands,
+  BackgroundCorrectionResult,
+  BACKGROUND_CORRECTION_STATUS_LABELS,
+  ExtendedOctaveBandFrequency,
 } from "@/lib/conversions";
 import type { ExtractedSoundData } from "@/lib/parsing";
+import { calculatePath, describePathElement, PATH_ELEMENT_LABELS } from "@/lib/hvac-noise";
 
 // Saved data item type
 interface SavedDataItem {
   id: string;
   name: string;
   octaveBands: OctaveBandData;
+  thirdOctaveBands?: ThirdOctaveBandData;
   dataType?: "soundPower" | "soundPressure";
+  conditions?: FanOperatingPoint;
+  combinedFrom?: { id: string; name: string }[];
+  backgroundCorrection?: Omit<BackgroundCorrectionResult, "octaveBands"> & { backgroundName: string };
   source: string;
   createdAt: Date;
 }
 
-type InputMode = "sones" | "nc" | "dba" | "octave";
+type InputMode = "sones" | "nc" | "dba" | "octave" | "third";
+
+type WorkspaceTab = "converter" | "fan" | "diffuser" | "terminal" | "path" | "breakout" | "outdoor";
+
+// Build octave band data from manual entry; 31.5 Hz and 16 kHz only when entered
+function toOctaveBandData(entry: Partial<OctaveBandData>): OctaveBandData {
+  const bands = OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+    acc[freq] = entry[freq] ?? 0;
+    return acc;
+  }, {} as OctaveBandData);
+  
+  if (entry[31.5]) bands[31.5] = entry[31.5];
+  if (entry[16000]) bands[16000] = entry[16000];
+  
+  return bands;
+}
 
 // Generate SVG chart for PDF report
-function generateNCCurveSVG(userData: OctaveBandData, nc: number, exceeds70: boolean): string {
+function generateNCCurveSVG(
+  userData: OctaveBandData,
+  nc: number,
+  exceeds70: boolean,
+  invalidBands: ExtendedOctaveBandFrequency[] = []
+): string {
   const width = 600;
   const height = 280;
   const padding = { top: 20, right: 30, bottom: 40, left: 50 };
@@ -112,7 +168,9 @@ function generateNCCurveSVG(userData: OctaveBandData, nc: number, exceeds70: boo
     ${OCTAVE_BAND_FREQUENCIES.map((freq, i) => {
       const x = xPositions[i];
       const y = yScale(Math.min(userData[freq], 100));
-      return `<circle cx="${x}" cy="${y}" r="5" fill="#EC4343" stroke="white" stroke-width="2"/>`;
+      return invalidBands.includes(freq)
+        ? `<circle cx="${x}" cy="${y}" r="5" fill="white" stroke="#EC4343" stroke-width="2"/>`
+        : `<circle cx="${x}" cy="${y}" r="5" fill="#EC4343" stroke="white" stroke-width="2"/>`;
     }).join('')}
   `;
   
@@ -122,6 +180,10 @@ function generateNCCurveSVG(userData: OctaveBandData, nc: number, exceeds70: boo
     <text x="${padding.left + 14}" y="${padding.top - 7}" font-size="10" fill="#2A2A2F">Your Data</text>
     <rect x="${padding.left + 80}" y="${padding.top - 15}" width="20" height="2" fill="#4A3AFF"/>
     <text x="${padding.left + 104}" y="${padding.top - 7}" font-size="10" fill="#2A2A2F">NC Curves</text>
+    ${invalidBands.length > 0 ? `
+    <circle cx="${padding.left + 185}" cy="${padding.top - 10}" r="4" fill="white" stroke="#EC4343" stroke-width="2"/>
+    <text x="${padding.left + 193}" y="${padding.top - 7}" font-size="10" fill="#2A2A2F">Upper bound (background)</text>
+    ` : ''}
   `;
   
   svg += `</svg>`;
@@ -134,23 +196,59 @@ export default function Home() {
   const [inputMode, setInputMode] = useState<InputMode>("octave");
   const [inputValue, setInputValue] = useState<string>("");
   const [octaveBands, setOctaveBands] = useState<Partial<OctaveBandData>>({});
+  const [thirdOctaveBands, setThirdOctaveBands] = useState<Partial<ThirdOctaveBandData>>({});
+  const [equipmentType, setEquipmentType] = useState<EquipmentType | "none">("none");
   
   // Result state
   const [result, setResult] = useState<SoundMeasurement | null>(null);
+  const [criterion, setCriterion] = useState<CurveFamily>("NC");
   
   // Saved data state (CRUD)
   const [savedData, setSavedData] = useState<SavedDataItem[]>([]);
   const [selectedDataId, setSelectedDataId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string>("");
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
 
   // Report generation state
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
 
+  // Duct path calculation state
+  const [workspaceTab, setWorkspaceTab] = useState<WorkspaceTab>("converter");
+  const [pathSourceId, setPathSourceId] = useState<string>("");
+  const [pathElements, setPathElements] = useState<PathElementEntry[]>([]);
+
+  // Rows extracted from uploaded documents, for the AHRI 885 terminal unit check
+  const [extractedRows, setExtractedRows] = useState<ExtractedSoundData[]>([]);
+
   // Check if current result exceeds NC-70
   const exceeds70 = result?.octaveBands ? exceedsNC70(result.octaveBands) : false;
   const maxExcess = result?.octaveBands ? getMaxNC70Excess(result.octaveBands) : 0;
 
+  // NR curves and compliance need an NR rating (octave band data)
+  const showNR = criterion === "NR" && result?.nr !== undefined;
+
+  // Octave bands reconstructed from a single-number rating and spectrum template
+  const isEstimated = result?.source === "estimated";
+
+  // Sound power data needs the room effect before it can be rated against NC
+  const selectedItem = savedData.find(item => item.id === selectedDataId);
+  const showRoomEffect = !!result?.octaveBands && !isEstimated && (selectedItem?.dataType === "soundPower" || exceeds70);
+
+  // Items checked for combining; sound power and sound pressure cannot be mixed
+  const checkedItems = savedData.filter(item => checkedIds.includes(item.id));
+  const canCombine = checkedItems.length >= 2 && new Set(checkedItems.map(item => item.dataType)).size === 1;
+
+  // Sound pressure measurements that can be the background for the selected item
+  const backgroundSources = savedData.filter(item => item.id !== selectedDataId && item.dataType !== "soundPower");
+
+  // Any saved data except room sound pressure can be used as sound power in the calculators
+  const pathSources = savedData.filter(item => item.dataType !== "soundPressure");
+
+  // dBC - dBA low-frequency imbalance diagnostic (meaningless for a template spectrum)
+  const imbalance = result?.octaveBands && !isEstimated ? calculateLowFrequencyImbalance(result.octaveBands) : undefined;
+  const hasImbalance = imbalance ? imbalance.value > LOW_FREQUENCY_IMBALANCE_THRESHOLD : false;
+
   const handleConvert = useCallback(() => {
     let input: Partial<SoundMeasurement> = {};
 
@@ -165,17 +263,21 @@ export default function Home() {
         input.dba = parseFloat(inputValue);
         break;
       case "octave":
-        const bands = OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
-          acc[freq] = octaveBands[freq] ?? 0;
+        input.octaveBands = toOctaveBandData(octaveBands);
+        break;
+      case "third":
+        input.thirdOctaveBands = THIRD_OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+          acc[freq] = thirdOctaveBands[freq] ?? 0;
           return acc;
-        }, {} as OctaveBandData);
-        input.octaveBands = bands;
+        }, {} as ThirdOctaveBandData);
         break;
     }
 
-    const converted = convertSoundMeasurement(input);
+    const converted = convertSoundMeasurement(input, {
+      equipmentType: equipmentType === "none" ? undefined : equipmentType,
+    });
     setResult(converted);
-  }, [inputMode, inputValue, octaveBands]);
+  }, [inputMode, inputValue, octaveBands, thirdOctaveBands, equipmentType]);
 
   const handleOctaveBandChange = (freq: number, value: string) => {
     setOctaveBands((prev) => ({
@@ -184,17 +286,58 @@ export default function Home() {
     }));
   };
 
+  const handleThirdOctaveBandChange = (freq: number, value: string) => {
+    setThirdOctaveBands((prev) => ({
+      ...prev,
+      [freq]: parseFloat(value) || 0,
+    }));
+  };
+
   const handleClear = () => {
     setInputValue("");
     setOctaveBands({});
+    setThirdOctaveBands({});
     setResult(null);
     setSelectedDataId(null);
   };
 
   // Handle data extracted from document uploader
   const handleDataExtracted = useCallback((data: ExtractedSoundData) => {
-    if (data.octaveBands) {
+    setExtractedRows(prev => [...prev, data]);
+
+    if (data.thirdOctaveBands) {
+      // Bands missing from the import stay unmeasured rather than 0 dB
+      const thirdBands = THIRD_OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+        const level = data.thirdOctaveBands![`hz${String(freq).replace(".", "_")}`];
+        if (level !== undefined) acc[freq] = level;
+        return acc;
+      }, {} as ThirdOctaveBandData);
+      const bands = thirdOctaveToOctaveBands(thirdBands);
+      
+      // Auto-save the extracted data
+      const newItem: SavedDataItem = {
+        id: crypto.randomUUID(),
+        name: data.equipment?.model || data.equipment?.type || `Import ${savedData.length + 1}`,
+        octaveBands: bands,
+        thirdOctaveBands: thirdBands,
+        dataType: data.dataType,
+        conditions: parseOperatingPoint(data.conditions),
+        source: data.source.fileName,
+        createdAt: new Date(),
+      };
+      
+      setSavedData(prev => [...prev, newItem]);
+      setSelectedDataId(newItem.id);
+      setThirdOctaveBands(thirdBands);
+      setOctaveBands(bands);
+      setInputMode("third");
+      
+      // Auto-convert
+      const converted = convertSoundMeasurement({ thirdOctaveBands: thirdBands });
+      setResult(converted);
+    } else if (data.octaveBands) {
       const bands: OctaveBandData = {
+        31.5: data.octaveBands.hz31_5,
         63: data.octaveBands.hz63 ?? 0,
         125: data.octaveBands.hz125 ?? 0,
         250: data.octaveBands.hz250 ?? 0,
@@ -203,6 +346,7 @@ export default function Home() {
         2000: data.octaveBands.hz2000 ?? 0,
         4000: data.octaveBands.hz4000 ?? 0,
         8000: data.octaveBands.hz8000 ?? 0,
+        16000: data.octaveBands.hz16000,
       };
       
       // Auto-save the extracted data
@@ -211,6 +355,7 @@ export default function Home() {
         name: data.equipment?.model || data.equipment?.type || `Import ${savedData.length + 1}`,
         octaveBands: bands,
         dataType: data.dataType,
+        conditions: parseOperatingPoint(data.conditions),
         source: data.source.fileName,
         createdAt: new Date(),
       };
@@ -230,21 +375,164 @@ export default function Home() {
   const handleSelectData = (item: SavedDataItem) => {
     setSelectedDataId(item.id);
     setOctaveBands(item.octaveBands);
-    setInputMode("octave");
+    setThirdOctaveBands(item.thirdOctaveBands ?? {});
+    setInputMode(item.thirdOctaveBands ? "third" : "octave");
     
-    const converted = convertSoundMeasurement({ octaveBands: item.octaveBands });
+    const converted = convertSoundMeasurement({
+      octaveBands: item.octaveBands,
+      thirdOctaveBands: item.thirdOctaveBands,
+    });
     setResult(converted);
   };
 
   const handleDeleteData = (id: string) => {
     setSavedData(prev => prev.filter(item => item.id !== id));
+    setCheckedIds(prev => prev.filter(checkedId => checkedId !== id));
     if (selectedDataId === id) {
       setSelectedDataId(null);
       setResult(null);
       setOctaveBands({});
+      setThirdOctaveBands({});
     }
   };
 
+  const handleToggleChecked = (id: string) => {
+    setCheckedIds(prev => prev.includes(id) ? prev.filter(checkedId => checkedId !== id) : [...prev, id]);
+  };
+
+  // Combine the checked items into one spectrum: energy sum (sources heard
+  // together) or energy average (repeat measurements of one source)
+  const handleCombineChecked = (mode: "sum" | "average") => {
+    if (!canCombine) return;
+
+    const spectra = checkedItems.map(item => item.octaveBands);
+    const combined = mode === "sum" ? addOctaveBands(spectra) : averageOctaveBands(spectra);
+    const names = checkedItems.map(item => item.name);
+    const newItem: SavedDataItem = {
+      id: crypto.randomUUID(),
+      name: `${mode === "sum" ? "Combined" : "Average"}: ${names.length > 3 ? `${names.length} items` : names.join(" + ")}`,
+      octaveBands: combined,
+      dataType: checkedItems[0].dataType,
+      combinedFrom: checkedItems.map(item => ({ id: item.id, name: item.name })),
+      source: mode === "sum" ? "energy sum" : "energy average",
+      createdAt: new Date(),
+    };
+
+    setSavedData(prev => [...prev, newItem]);
+    setCheckedIds([]);
+    setSelectedDataId(newItem.id);
+    setOctaveBands(combined);
+    setThirdOctaveBands({});
+    setInputMode("octave");
+    setResult(convertSoundMeasurement({ octaveBands: combined }));
+  };
+
+  // Save the room sound pressure from the room effect calculator as a new item
+  const handleApplyRoomEffect = (soundPressure: OctaveBandData) => {
+    const newItem: SavedDataItem = {
+      id: crypto.randomUUID(),
+      name: `${selectedItem?.name ?? "Sound Power"} (Room)`,
+      octaveBands: soundPressure,
+      dataType: "soundPressure",
+      source: "room effect",
+      createdAt: new Date(),
+    };
+
+    setSavedData(prev => [...prev, newItem]);
+    setSelectedDataId(newItem.id);
+    setOctaveBands(soundPressure);
+    setThirdOctaveBands({});
+    setInputMode("octave");
+    setResult(convertSoundMeasurement({ octaveBands: soundPressure }));
+  };
+
+  // Save a spectrum from a calculator tab (room sound pressure by default) and show it in the converter
+  const saveCalculatedSpectrum = (
+    name: string,
+    spectrum: OctaveBandData,
+    source: string,
+    dataType: SavedDataItem["dataType"] = "soundPressure"
+  ) => {
+    const newItem: SavedDataItem = {
+      id: crypto.randomUUID(),
+      name,
+      octaveBands: spectrum,
+      dataType,
+      source,
+      createdAt: new Date(),
+    };
+
+    setSavedData(prev => [...prev, newItem]);
+    setSelectedDataId(newItem.id);
+    setOctaveBands(spectrum);
+    setThirdOctaveBands({});
+    setInputMode("octave");
+    setResult(convertSoundMeasurement({ octaveBands: spectrum }));
+    setWorkspaceTab("converter");
+  };
+
+  const handleSaveFanEstimate = (soundPower: OctaveBandData, name: string) => {
+    saveCalculatedSpectrum(name, soundPower, "fan estimate", "soundPower");
+  };
+
+  const handleSavePathReceiver = (receiver: OctaveBandData) => {
+    const pathSource = savedData.find(item => item.id === pathSourceId);
+    saveCalculatedSpectrum(`${pathSource?.name ?? "Fan"} (Path)`, receiver, "path calculation");
+  };
+
+  const handleSaveBreakoutRoom = (soundPressure: OctaveBandData, breakoutSource: PathSource) => {
+    saveCalculatedSpectrum(`${breakoutSource.name} (Breakout)`, soundPressure, "breakout calculation");
+  };
+
+  const handleSaveDiffuserRoom = (soundPressure: OctaveBandData, name: string) => {
+    saveCalculatedSpectrum(name, soundPressure, "diffuser calculation");
+  };
+
+  // Save a spectrum derived by fan laws as a new item at its operating point
+  const handleSaveFanLawSpectrum = (spectrum: OctaveBandData, conditions: FanOperatingPoint, label: string) => {
+    const newItem: SavedDataItem = {
+      id: crypto.randomUUID(),
+      name: `${selectedItem?.name ?? "Fan"} @ ${label}`,
+      octaveBands: spectrum,
+      dataType: selectedItem?.dataType,
+      conditions,
+      source: "fan law scaling",
+      createdAt: new Date(),
+    };
+
+    setSavedData(prev => [...prev, newItem]);
+    setSelectedDataId(newItem.id);
+    setOctaveBands(spectrum);
+    setThirdOctaveBands({});
+    setInputMode("octave");
+    setResult(convertSoundMeasurement({ octaveBands: spectrum }));
+  };
+
+  // Save a field measurement corrected for background noise, with its per-band status
+  const handleSaveBackgroundCorrection = (correction: BackgroundCorrectionResult, background: PathSource) => {
+    const { octaveBands: corrected, ...details } = correction;
+    const newItem: SavedDataItem = {
+      id: crypto.randomUUID(),
+      name: `${selectedItem?.name ?? "Measurement"} (Corrected)`,
+      octaveBands: corrected,
+      dataType: "soundPressure",
+      backgroundCorrection: { ...details, backgroundName: background.name },
+      source: "background correction",
+      createdAt: new Date(),
+    };
+
+    setSavedData(prev => [...prev, newItem]);
+    setSelectedDataId(newItem.id);
+    setOctaveBands(corrected);
+    setThirdOctaveBands({});
+    setInputMode("octave");
+    setResult(convertSoundMeasurement({ octaveBands: corrected }));
+  };
+
+  const handleSaveOutdoorReceiver = (soundPressure: OctaveBandData, name: string) => {
+    saveCalculatedSpectrum(name, soundPressure, "outdoor propagation");
+  };
+
   const handleStartEdit = (item: SavedDataItem) => {
     setEditingId(item.id);
     setEditingName(item.name);
@@ -264,18 +552,30 @@ export default function Home() {
   };
 
   const handleAddManualEntry = () => {
-    const hasData = OCTAVE_BAND_FREQUENCIES.some(freq => (octaveBands[freq] ?? 0) > 0);
-    if (!hasData) return;
+    let thirdBands: ThirdOctaveBandData | undefined;
+    let bands: OctaveBandData;
+
+    if (inputMode === "third") {
+      const hasData = THIRD_OCTAVE_BAND_FREQUENCIES.some(freq => (thirdOctaveBands[freq] ?? 0) > 0);
+      if (!hasData) return;
 
-    const bands = OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
-      acc[freq] = octaveBands[freq] ?? 0;
-      return acc;
-    }, {} as OctaveBandData);
+      thirdBands = THIRD_OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+        acc[freq] = thirdOctaveBands[freq] ?? 0;
+        return acc;
+      }, {} as ThirdOctaveBandData);
+      bands = thirdOctaveToOctaveBands(thirdBands);
+    } else {
+      const hasData = EXTENDED_OCTAVE_BAND_FREQUENCIES.some(freq => (octaveBands[freq] ?? 0) > 0);
+      if (!hasData) return;
+
+      bands = toOctaveBandData(octaveBands);
+    }
 
     const newItem: SavedDataItem = {
       id: crypto.randomUUID(),
       name: `Manual Entry ${savedData.length + 1}`,
       octaveBands: bands,
+      thirdOctaveBands: thirdBands,
       source: "manual",
       createdAt: new Date(),
     };
@@ -283,7 +583,7 @@ export default function Home() {
     setSavedData(prev => [...prev, newItem]);
     setSelectedDataId(newItem.id);
     
-    const converted = convertSoundMeasurement({ octaveBands: bands });
+    const converted = convertSoundMeasurement({ octaveBands: bands, thirdOctaveBands: thirdBands });
     setResult(converted);
   };
 
@@ -327,6 +627,7 @@ export default function Home() {
             .result-card { background: white; padding: 16px; border-radius: 6px; text-align: center; }
             .result-card .label { font-size: 12px; color: #6C6C71; margin-bottom: 4px; }
             .result-card .value { font-size: 20px; font-weight: 700; }
+            .result-card .detail { font-size: 11px; color: #6C6C71; margin-top: 4px; }
             .octave-table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
             .octave-table th, .octave-table td { padding: 8px; text-align: center; border: 1px solid #E5E5E5; }
             .octave-table th { background: #F0F0F2; font-weight: 600; font-size: 12px; }
@@ -350,15 +651,22 @@ export default function Home() {
       
       // Add each saved data item
       for (const item of savedData) {
-        const converted = convertSoundMeasurement({ octaveBands: item.octaveBands });
+        const converted = convertSoundMeasurement({
+          octaveBands: item.octaveBands,
+          thirdOctaveBands: item.thirdOctaveBands,
+        });
         const itemExceeds70 = exceedsNC70(item.octaveBands);
+        const itemImbalance = calculateLowFrequencyImbalance(item.octaveBands);
         
         reportHTML += `
           <div class="equipment-section">
             <div class="equipment-title">${item.name}</div>
             <div class="equipment-meta">
               Source: ${item.source} | 
+              ${item.combinedFrom ? `Combined from: ${item.combinedFrom.map(part => part.name).join(', ')} | ` : ''}
+              ${item.backgroundCorrection ? `Corrected for background: ${item.backgroundCorrection.backgroundName} | ` : ''}
               Type: ${item.dataType === 'soundPower' ? 'Sound Power Level (LW)' : item.dataType === 'soundPressure' ? 'Sound Pressure Level (LP)' : 'Unknown'}
+              ${item.thirdOctaveBands ? ' | Octave bands summed from 1/3 octave data' : ''}
             </div>
             
             ${itemExceeds70 ? `
@@ -376,24 +684,105 @@ export default function Home() {
                 <div class="label">dBA</div>
                 <div class="value">${converted.dba?.toFixed(1)} dBA</div>
               </div>
+              <div class="result-card">
+                <div class="label">dBC</div>
+                <div class="value">${converted.dbc !== undefined ? `${converted.dbc.toFixed(1)} dBC` : '-'}</div>
+                ${itemImbalance ? `<div class="detail">dBC − dBA: ${itemImbalance.value} dB${itemImbalance.value > LOW_FREQUENCY_IMBALANCE_THRESHOLD ? ' · Low-frequency imbalance' : ''}</div>` : ''}
+              </div>
+              <div class="result-card">
+                <div class="label">dBZ</div>
+                <div class="value">${converted.dbz !== undefined ? `${converted.dbz.toFixed(1)} dBZ` : '-'}</div>
+              </div>
               <div class="result-card">
                 <div class="label">Sones</div>
                 <div class="value">${converted.sones?.toFixed(2)}</div>
+                ${converted.loudestBand ? `<div class="detail">Loudest band: ${converted.loudestBand} Hz</div>` : ''}
+              </div>
+              <div class="result-card">
+                <div class="label">RC Mark II</div>
+                <div class="value">${converted.rc ? formatRCRating(converted.rc) : '-'}</div>
+                ${converted.rc ? `<div class="detail">${RC_QUALITY_LABELS[converted.rc.quality]} · QAI ${converted.rc.qai} dB</div>` : ''}
+              </div>
+              <div class="result-card">
+                <div class="label">NCB</div>
+                <div class="value">${converted.ncb ? formatNCBRating(converted.ncb) : '-'}</div>
+                ${converted.ncb ? `<div class="detail">SIL ${converted.ncb.sil} dB</div>` : ''}
+              </div>
+              <div class="result-card">
+                <div class="label">RNC</div>
+                <div class="value">${converted.rnc !== undefined ? `RNC-${converted.rnc}` : '-'}</div>
+              </div>
+              <div class="result-card">
+                <div class="label">ISO NR</div>
+                <div class="value">${converted.nr !== undefined ? `NR-${converted.nr}` : '-'}</div>
               </div>
             </div>
             
             <table class="octave-table">
               <tr>
                 <th>Frequency (Hz)</th>
-                ${OCTAVE_BAND_FREQUENCIES.map(f => `<th>${f >= 1000 ? `${f/1000}k` : f}</th>`).join('')}
+                ${getBandFrequencies(item.octaveBands).map(f => `<th>${f >= 1000 ? `${f/1000}k` : f}</th>`).join('')}
               </tr>
               <tr>
                 <td><strong>Level (dB)</strong></td>
-                ${OCTAVE_BAND_FREQUENCIES.map(f => `<td>${item.octaveBands[f]}</td>`).join('')}
+                ${getBandFrequencies(item.octaveBands).map(f => `<td>${item.backgroundCorrection?.status[f] === 'invalid' ? '≤' : ''}${item.octaveBands[f]}</td>`).join('')}
               </tr>
+              ${item.backgroundCorrection ? `
+              <tr>
+                <td><strong>Background</strong></td>
+                ${getBandFrequencies(item.octaveBands).map(f => {
+                  const status = item.backgroundCorrection!.status[f];
+                  const correction = item.backgroundCorrection!.corrections[f];
+                  return `<td title="${status ? BACKGROUND_CORRECTION_STATUS_LABELS[status] : ''}" style="font-size: 11px; color: ${status === 'invalid' ? '#EC4343' : '#6C6C71'};">${status === 'invalid' ? 'Invalid' : correction ? `−${correction}` : '-'}</td>`;
+                }).join('')}
+              </tr>
+              ` : ''}
             </table>
             
-            ${generateNCCurveSVG(item.octaveBands, converted.nc || 70, itemExceeds70)}
+            ${item.backgroundCorrection?.invalidBands.length ? `
+            <div class="warning">
+              <div class="warning-text">⚠️ Less than 3 dB above background at ${item.backgroundCorrection.invalidBands.map(f => `${f >= 1000 ? `${f/1000}k` : f} Hz`).join(', ')}. These levels are upper bounds only.</div>
+            </div>
+            ` : ''}
+            
+            ${generateNCCurveSVG(item.octaveBands, converted.nc || 70, itemExceeds70, item.backgroundCorrection?.invalidBands)}
+          </div>
+        `;
+      }
+      
+      // Duct path calculation, one row per element
+      const pathSource = savedData.find(item => item.id === pathSourceId);
+      if (pathSource && pathElements.length > 0) {
+        const path = calculatePath(pathSource.octaveBands, pathElements.map(entry => entry.element));
+        const bandHeaders = OCTAVE_BAND_FREQUENCIES.map(f => `<th>${f >= 1000 ? `${f/1000}k` : f}</th>`).join('');
+        
+        reportHTML += `
+          <div class="equipment-section">
+            <div class="equipment-title">Duct Path Calculation</div>
+            <div class="equipment-meta">
+              Source: ${pathSource.name} · Receiver: NC-${path.nc} (set by the ${path.controllingFrequency >= 1000 ? `${path.controllingFrequency/1000}k` : path.controllingFrequency} Hz band)
+            </div>
+            ${path.warnings.map(warning => `<div class="warning"><div class="warning-text">⚠️ ${warning}</div></div>`).join('')}
+            <table class="octave-table">
+              <tr>
+                <th>Element</th>
+                ${bandHeaders}
+              </tr>
+              <tr>
+                <td><strong>Source LW</strong></td>
+                ${OCTAVE_BAND_FREQUENCIES.map(f => `<td>${pathSource.octaveBands[f]}</td>`).join('')}
+              </tr>
+              ${path.steps.map(step => `
+                <tr>
+                  <td>${PATH_ELEMENT_LABELS[step.element.type]}<br/><span style="font-size: 11px; color: #6C6C71;">${describePathElement(step.element)}</span></td>
+                  ${OCTAVE_BAND_FREQUENCIES.map(f => `<td>−${step.attenuation[f]}</td>`).join('')}
+                </tr>
+              `).join('')}
+              <tr>
+                <td><strong>${path.isSoundPressure ? 'Room LP' : 'Receiver LW'}</strong></td>
+                ${OCTAVE_BAND_FREQUENCIES.map(f => `<td><strong>${path.receiver[f]}</strong></td>`).join('')}
+              </tr>
+            </table>
           </div>
         `;
       }
@@ -424,7 +813,7 @@ export default function Home() {
     } finally {
       setIsGeneratingReport(false);
     }
-  }, [savedData]);
+  }, [savedData, pathSourceId, pathElements]);
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
@@ -470,7 +859,22 @@ export default function Home() {
             {savedData.length > 0 && (
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium">Saved Data ({savedData.length})</CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium">Saved Data ({savedData.length})</CardTitle>
+                    {checkedItems.length >= 2 && (
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="outline" className="h-7 text-xs" disabled={!canCombine} onClick={() => handleCombineChecked("sum")}>
+                          Combine ({checkedItems.length})
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={!canCombine} onClick={() => handleCombineChecked("average")}>
+                          Average
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {checkedItems.length >= 2 && !canCombine && (
+                    <p className="text-xs text-amber-700">Sound power and sound pressure data cannot be combined.</p>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-1">
                   {savedData.map((item) => (
@@ -516,10 +920,19 @@ export default function Home() {
                         </div>
                       ) : (
                         <>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${item.name} to combine`}
+                            checked={checkedIds.includes(item.id)}
+                            onChange={() => handleToggleChecked(item.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            className="h-3.5 w-3.5 accent-[#4A3AFF] cursor-pointer"
+                          />
                           <div className="flex-1 min-w-0">
                             <div className="text-sm font-medium truncate">{item.name}</div>
                             <div className="text-xs text-muted-foreground truncate">
                               {item.dataType === "soundPower" ? "Sound Power" : item.dataType === "soundPressure" ? "Sound Pressure" : item.source}
+                              {item.combinedFrom && ` · ${item.combinedFrom.length} sources`}
                             </div>
                           </div>
                           <div className="flex items-center gap-1">
@@ -562,11 +975,12 @@ export default function Home() {
               </CardHeader>
               <CardContent>
                 <Tabs value={inputMode} onValueChange={(v) => setInputMode(v as InputMode)}>
-                  <TabsList className="grid w-full grid-cols-4 h-8">
+                  <TabsList className="grid w-full grid-cols-5 h-8">
                     <TabsTrigger value="sones" className="text-xs">Sones</TabsTrigger>
                     <TabsTrigger value="nc" className="text-xs">NC</TabsTrigger>
                     <TabsTrigger value="dba" className="text-xs">dBA</TabsTrigger>
                     <TabsTrigger value="octave" className="text-xs">Octave</TabsTrigger>
+                    <TabsTrigger value="third" className="text-xs">1/3 Oct</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="sones" className="space-y-2 mt-3">
@@ -620,8 +1034,8 @@ export default function Home() {
 
                   <TabsContent value="octave" className="space-y-2 mt-3">
                     <Label className="text-xs">Octave Band Levels (dB)</Label>
-                    <div className="grid grid-cols-4 gap-2">
-                      {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                    <div className="grid grid-cols-5 gap-2">
+                      {EXTENDED_OCTAVE_BAND_FREQUENCIES.map((freq) => (
                         <div key={freq} className="space-y-1">
                           <Label htmlFor={`freq-${freq}`} className="text-[10px] text-muted-foreground">
                             {freq >= 1000 ? `${freq / 1000}k` : freq} Hz
@@ -630,7 +1044,7 @@ export default function Home() {
                             id={`freq-${freq}`}
                             type="number"
                             step="1"
-                            placeholder="dB"
+                            placeholder={freq === 31.5 || freq === 16000 ? "opt." : "dB"}
                             value={octaveBands[freq] ?? ""}
                             onChange={(e) => handleOctaveBandChange(freq, e.target.value)}
                             className="h-7 text-xs"
@@ -639,13 +1053,57 @@ export default function Home() {
                       ))}
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="third" className="space-y-2 mt-3">
+                    <Label className="text-xs">1/3 Octave Band Levels (dB)</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {THIRD_OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                        <div key={freq} className="space-y-1">
+                          <Label htmlFor={`third-${freq}`} className="text-[10px] text-muted-foreground">
+                            {freq >= 1000 ? `${freq / 1000}k` : freq} Hz
+                          </Label>
+                          <Input
+                            id={`third-${freq}`}
+                            type="number"
+                            step="1"
+                            placeholder="dB"
+                            value={thirdOctaveBands[freq] ?? ""}
+                            onChange={(e) => handleThirdOctaveBandChange(freq, e.target.value)}
+                            className="h-7 text-xs"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      Summed to octave bands on an energy basis. 25 - 40 Hz sum to the 31.5 Hz band.
+                    </p>
+                  </TabsContent>
                 </Tabs>
 
+                {(inputMode === "sones" || inputMode === "nc" || inputMode === "dba") && (
+                  <div className="space-y-1 mt-3">
+                    <Label htmlFor="equipment-type" className="text-xs">Spectrum Template</Label>
+                    <Select value={equipmentType} onValueChange={(v) => setEquipmentType(v as EquipmentType | "none")}>
+                      <SelectTrigger id="equipment-type" className="w-full h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Generic (fixed offsets)</SelectItem>
+                        {(Object.keys(SPECTRUM_TEMPLATES) as EquipmentType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {SPECTRUM_TEMPLATES[type].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="flex gap-2 mt-4">
                   <Button onClick={handleConvert} size="sm" className="flex-1">
                     Convert
                   </Button>
-                  {inputMode === "octave" && (
+                  {(inputMode === "octave" || inputMode === "third") && (
                     <Button onClick={handleAddManualEntry} size="sm" variant="outline">
                       <Plus className="w-4 h-4 mr-1" />
                       Save
@@ -661,119 +1119,315 @@ export default function Home() {
         </div>
 
         {/* Right Panel - Results */}
-        <div className="flex-1 overflow-y-auto p-6 space-y-6">
-          {result ? (
-            <>
-              {/* NC 70+ Warning */}
-              {exceeds70 && (
-                <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-start gap-3">
-                  <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
-                  <div>
-                    <p className="font-medium text-amber-700">Data Exceeds NC Rating Scale</p>
-                    <p className="text-sm text-amber-600/90 mt-1">
-                      Your data exceeds NC-70 by up to {Math.round(maxExcess)} dB at certain frequencies. 
-                      This typically indicates <strong>Sound Power Level (LW)</strong> data rather than Sound Pressure Level (LP). 
-                      NC ratings are designed for room sound pressure levels, not equipment sound power specifications.
-                    </p>
-                  </div>
-                </div>
-              )}
+        <div className="flex-1 overflow-y-auto p-6">
+          <Tabs value={workspaceTab} onValueChange={(v) => setWorkspaceTab(v as WorkspaceTab)} className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="converter">Converter</TabsTrigger>
+              <TabsTrigger value="fan">Fan</TabsTrigger>
+              <TabsTrigger value="diffuser">Diffuser</TabsTrigger>
+              <TabsTrigger value="terminal">AHRI 885</TabsTrigger>
+              <TabsTrigger value="path">Path Calculation</TabsTrigger>
+              <TabsTrigger value="breakout">Breakout</TabsTrigger>
+              <TabsTrigger value="outdoor">Outdoor</TabsTrigger>
+            </TabsList>
 
-              {/* Conversion Results */}
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Conversion Results</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-3 gap-4">
-                    {result.sones !== undefined && (
-                      <ResultCard
-                        label="Sones"
-                        value={formatSoundValue(result.sones, "sones", 2)}
-                        isInput={inputMode === "sones"}
-                      />
-                    )}
-                    {result.nc !== undefined && (
-                      <ResultCard
-                        label="NC Rating"
-                        value={exceeds70 ? "NC 70+" : formatSoundValue(result.nc, "nc")}
-                        isInput={inputMode === "nc"}
-                        warning={exceeds70}
-                      />
-                    )}
-                    {result.dba !== undefined && (
-                      <ResultCard
-                        label="dBA"
-                        value={formatSoundValue(result.dba, "dba")}
-                        isInput={inputMode === "dba"}
-                      />
-                    )}
-                  </div>
-
-                  {result.octaveBands && (
-                    <div className="mt-6">
-                      <h4 className="font-medium text-sm mb-3">Octave Band Levels</h4>
-                      <div className="grid grid-cols-8 gap-2">
-                        {OCTAVE_BAND_FREQUENCIES.map((freq) => (
-                          <div key={freq} className="text-center p-2 rounded bg-accent">
-                            <div className="text-[10px] text-muted-foreground">
-                              {freq >= 1000 ? `${freq / 1000}k` : freq} Hz
-                            </div>
-                            <div className="font-medium text-sm">
-                              {result.octaveBands![freq]} dB
-                            </div>
-                          </div>
-                        ))}
+            <TabsContent value="converter" className="space-y-6">
+              {result ? (
+                <>
+                  {/* NC 70+ Warning */}
+                  {exceeds70 && (
+                    <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg flex items-start gap-3">
+                      <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium text-amber-700">Data Exceeds NC Rating Scale</p>
+                        <p className="text-sm text-amber-600/90 mt-1">
+                          Your data exceeds NC-70 by up to {Math.round(maxExcess)} dB at certain frequencies. 
+                          This typically indicates <strong>Sound Power Level (LW)</strong> data rather than Sound Pressure Level (LP). 
+                          NC ratings are designed for room sound pressure levels, not equipment sound power specifications.
+                          Use the Room Effect calculator below to get the sound pressure in the occupied space.
+                        </p>
                       </div>
                     </div>
                   )}
-                </CardContent>
-              </Card>
 
-              {/* NC Curve Chart */}
-              {result.octaveBands && result.nc !== undefined && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">NC Curve Comparison</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <NCCurveChart
-                      userData={result.octaveBands}
-                      height={400}
-                      showCurves={exceeds70 ? [60, 65, 70] : [
-                        Math.max(15, result.nc - 5),
-                        result.nc,
-                        Math.min(70, result.nc + 5),
-                      ]}
+                  {/* Room Effect - sound power to room sound pressure */}
+                  {showRoomEffect && (
+                    <RoomEffectCalculator
+                      soundPower={result.octaveBands!}
+                      onApply={handleApplyRoomEffect}
                     />
-                    <p className="text-xs text-muted-foreground mt-3 text-center">
-                      {exceeds70 
-                        ? "Your data (circles) significantly exceeds the NC-70 curve. Consider whether this is Sound Power Level data."
-                        : `Your data (circles) compared to NC curves. The solid bold curve (NC-${result.nc}) is the lowest NC rating that contains all your data.`
-                      }
+                  )}
+
+                  {/* Background Correction - field measurements of room sound pressure */}
+                  {selectedItem && result.octaveBands && !isEstimated && selectedItem.dataType !== "soundPower" && (
+                    <BackgroundCorrection
+                      key={selectedItem.id}
+                      measured={result.octaveBands}
+                      backgrounds={backgroundSources}
+                      onSave={handleSaveBackgroundCorrection}
+                    />
+                  )}
+
+                  {/* Fan Law Scaling - derive the spectrum at another operating point */}
+                  {selectedItem && result.octaveBands && !isEstimated && (
+                    <FanLawScaler
+                      key={selectedItem.id}
+                      spectrum={result.octaveBands}
+                      base={selectedItem.conditions}
+                      onSave={handleSaveFanLawSpectrum}
+                    />
+                  )}
+
+                  {/* Conversion Results */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg">Conversion Results</CardTitle>
+                      {result.nr !== undefined && (
+                        <CardAction className="flex items-center gap-1">
+                          <span className="text-micro text-muted-foreground mr-1">Criterion</span>
+                          {(["NC", "NR"] as const).map((family) => (
+                            <Button
+                              key={family}
+                              size="sm"
+                              variant={criterion === family ? "default" : "outline"}
+                              className="h-7 px-2"
+                              onClick={() => setCriterion(family)}
+                            >
+                              {family}
+                            </Button>
+                          ))}
+                        </CardAction>
+                      )}
+                    </CardHeader>
+                    <CardContent>
+                      {result.equipmentType && (
+                        <p className="text-xs text-muted-foreground mb-4">
+                          Estimated from a typical {SPECTRUM_TEMPLATES[result.equipmentType].label} spectrum
+                          (±{SPECTRUM_TEMPLATES[result.equipmentType].spread} dB). Ranges show normal variation in spectrum shape.
+                        </p>
+                      )}
+                      <div className="grid grid-cols-3 gap-4">
+                        {result.sones !== undefined && (
+                          <ResultCard
+                            label="Sones"
+                            value={formatSoundValue(result.sones, "sones", 2)}
+                            detail={
+                              result.ranges?.sones
+                                ? `Range ${result.ranges.sones.min} – ${result.ranges.sones.max} sones`
+                                : result.loudestBand ? `Loudest band: ${result.loudestBand} Hz` : undefined
+                            }
+                            isInput={inputMode === "sones"}
+                          />
+                        )}
+                        {result.nc !== undefined && (
+                          <ResultCard
+                            label="NC Rating"
+                            value={exceeds70 ? "NC 70+" : formatSoundValue(result.nc, "nc")}
+                            detail={result.ranges?.nc ? `Range NC-${result.ranges.nc.min} – NC-${result.ranges.nc.max}` : undefined}
+                            isInput={inputMode === "nc"}
+                            warning={exceeds70}
+                          />
+                        )}
+                        {result.dba !== undefined && (
+                          <ResultCard
+                            label="dBA"
+                            value={formatSoundValue(result.dba, "dba")}
+                            detail={result.ranges?.dba ? `Range ${result.ranges.dba.min} – ${result.ranges.dba.max} dBA` : undefined}
+                            isInput={inputMode === "dba"}
+                          />
+                        )}
+                        {result.dbc !== undefined && (
+                          <ResultCard
+                            label="dBC"
+                            value={formatSoundValue(result.dbc, "dbc")}
+                            detail={imbalance ? `dBC − dBA: ${imbalance.value} dB` : undefined}
+                            isInput={false}
+                            warning={hasImbalance}
+                            warningText="Low-frequency imbalance"
+                          />
+                        )}
+                        {result.dbz !== undefined && (
+                          <ResultCard
+                            label="dBZ"
+                            value={formatSoundValue(result.dbz, "dbz")}
+                            isInput={false}
+                          />
+                        )}
+                        {result.rc && (
+                          <ResultCard
+                            label="RC Mark II"
+                            value={formatRCRating(result.rc)}
+                            detail={`${RC_QUALITY_LABELS[result.rc.quality]} · QAI ${result.rc.qai} dB`}
+                            isInput={false}
+                          />
+                        )}
+                        {result.ncb && (
+                          <ResultCard
+                            label="NCB"
+                            value={formatNCBRating(result.ncb)}
+                            detail={`SIL ${result.ncb.sil} dB`}
+                            isInput={false}
+                          />
+                        )}
+                        {result.rnc !== undefined && (
+                          <ResultCard
+                            label="RNC"
+                            value={`RNC-${result.rnc}`}
+                            detail="Steady noise assumed"
+                            isInput={false}
+                          />
+                        )}
+                        {result.nr !== undefined && (
+                          <ResultCard
+                            label="ISO NR"
+                            value={formatSoundValue(result.nr, "nr")}
+                            isInput={false}
+                          />
+                        )}
+                      </div>
+
+                      {hasImbalance && imbalance && (
+                        <p className="mt-4 text-xs text-amber-700">{imbalance.notes}</p>
+                      )}
+
+                      {result.octaveBands && (
+                        <div className="mt-6">
+                          <h4 className="font-medium text-sm mb-3">
+                            Octave Band Levels
+                            {result.thirdOctaveBands && (
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">Summed from 1/3 octave bands</span>
+                            )}
+                            {isEstimated && (
+                              <span className="ml-2 text-xs font-normal text-muted-foreground">Estimated - indicative only</span>
+                            )}
+                          </h4>
+                          <div
+                            className="grid gap-2"
+                            style={{ gridTemplateColumns: `repeat(${getBandFrequencies(result.octaveBands).length}, minmax(0, 1fr))` }}
+                          >
+                            {getBandFrequencies(result.octaveBands).map((freq) => (
+                              <div key={freq} className="text-center p-2 rounded bg-accent">
+                                <div className="text-[10px] text-muted-foreground">
+                                  {freq >= 1000 ? `${freq / 1000}k` : freq} Hz
+                                </div>
+                                <div className="font-medium text-sm">
+                                  {selectedItem?.backgroundCorrection?.status[freq] === "invalid" ? "≤" : ""}
+                                  {result.octaveBands![freq]} dB
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  {/* NC Curve Chart */}
+                  {result.octaveBands && result.nc !== undefined && !showNR && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-lg">NC Curve Comparison</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <NCCurveChart
+                          userData={result.octaveBands}
+                          rcRating={exceeds70 ? undefined : result.rc}
+                          estimated={isEstimated}
+                          invalidBands={selectedItem?.backgroundCorrection?.invalidBands}
+                          height={400}
+                          showCurves={exceeds70 ? [60, 65, 70] : getNeighborNCCurves(result.nc)}
+                        />
+                        <p className="text-xs text-muted-foreground mt-3 text-center">
+                          {isEstimated
+                            ? `The dashed line is an estimated spectrum from the ${SPECTRUM_TEMPLATES[result.equipmentType!].label} template, scaled to match the entered rating. Use it for an indicative per-band comparison only; request octave band data for a full assessment.`
+                            : exceeds70 
+                            ? "Your data (circles) significantly exceeds the NC-70 curve. Consider whether this is Sound Power Level data."
+                            : `Your data (circles) rates NC-${result.nc} by the tangency method${result.ncControllingFrequency ? `, set by the ${result.ncControllingFrequency} Hz band` : ""}. The solid bold curve is the lowest standard NC curve that contains all your data.${result.rc ? ` The dotted blue line is the ${formatRCRating(result.rc)} reference curve.` : ""}`
+                          }
+                        </p>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {/* NR Curve Chart */}
+                  {result.octaveBands && result.nr !== undefined && showNR && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-lg">NR Curve Comparison</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <NCCurveChart
+                          userData={result.octaveBands}
+                          curveFamily="NR"
+                          invalidBands={selectedItem?.backgroundCorrection?.invalidBands}
+                          height={400}
+                          showCurves={getNeighborNCCurves(result.nr, NR_CURVES)}
+                        />
+                        <p className="text-xs text-muted-foreground mt-3 text-center">
+                          Your data (circles) rates NR-{result.nr} by the tangency method. The solid bold curve is the
+                          lowest standard NR curve that contains all your data.
+                        </p>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {/* ASHRAE Compliance - pass NC-71 when exceeded so it naturally fails all room types */}
+                  <ComplianceChecker
+                    equipmentNC={exceeds70 ? 71 : result?.nc}
+                    equipmentNR={result?.nr}
+                    criterion={showNR ? "NR" : "NC"}
+                    controllingFrequency={result?.ncControllingFrequency}
+                    equipmentNCRange={exceeds70 ? undefined : result?.ranges?.nc}
+                  />
+                </>
+              ) : (
+                <div className="flex items-center justify-center min-h-[60vh] text-center">
+                  <div className="max-w-md space-y-4">
+                    <div className="w-16 h-16 rounded-full bg-accent flex items-center justify-center mx-auto">
+                      <svg className="w-8 h-8 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                      </svg>
+                    </div>
+                    <h2 className="text-xl font-semibold">No Data to Display</h2>
+                    <p className="text-muted-foreground">
+                      Upload a sound data document, select saved data, or enter values manually to see conversion results and NC curve analysis.
                     </p>
-                  </CardContent>
-                </Card>
+                  </div>
+                </div>
               )}
+            </TabsContent>
 
-              {/* ASHRAE Compliance - pass NC-71 when exceeded so it naturally fails all room types */}
-              <ComplianceChecker equipmentNC={exceeds70 ? 71 : result?.nc} />
-            </>
-          ) : (
-            <div className="flex items-center justify-center h-full text-center">
-              <div className="max-w-md space-y-4">
-                <div className="w-16 h-16 rounded-full bg-accent flex items-center justify-center mx-auto">
-                  <svg className="w-8 h-8 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                  </svg>
-                </div>
-                <h2 className="text-xl font-semibold">No Data to Display</h2>
-                <p className="text-muted-foreground">
-                  Upload a sound data document, select saved data, or enter values manually to see conversion results and NC curve analysis.
-                </p>
-              </div>
-            </div>
-          )}
+            <TabsContent value="fan">
+              <FanSoundEstimator onSave={handleSaveFanEstimate} />
+            </TabsContent>
+
+            <TabsContent value="diffuser">
+              <DiffuserCalculator sources={pathSources} onSaveRoom={handleSaveDiffuserRoom} />
+            </TabsContent>
+
+            <TabsContent value="terminal">
+              <AHRI885Calculator rows={extractedRows} />
+            </TabsContent>
+
+            <TabsContent value="path">
+              <PathCalculator
+                sources={pathSources}
+                sourceId={pathSourceId}
+                onSourceChange={setPathSourceId}
+                elements={pathElements}
+                onElementsChange={setPathElements}
+                onSaveReceiver={handleSavePathReceiver}
+              />
+            </TabsContent>
+
+            <TabsContent value="breakout">
+              <BreakoutCalculator sources={pathSources} onSaveRoom={handleSaveBreakoutRoom} />
+            </TabsContent>
+
+            <TabsContent value="outdoor">
+              <OutdoorCalculator sources={pathSources} onSaveReceiver={handleSaveOutdoorReceiver} />
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
 
@@ -793,13 +1447,17 @@ export default function Home() {
 function ResultCard({
   label,
   value,
+  detail,
   isInput,
   warning,
+  warningText = "Exceeds Scale",
 }: {
   label: string;
   value: string;
+  detail?: string;
   isInput: boolean;
   warning?: boolean;
+  warningText?: string;
 }) {
   return (
     <div className={`p-4 rounded-lg ${
@@ -811,8 +1469,9 @@ function ResultCard({
     }`}>
       <div className="text-xs text-muted-foreground">{label}</div>
       <div className={`font-bold text-xl ${warning ? "text-amber-700" : ""}`}>{value}</div>
+      {detail && <div className="text-xs text-muted-foreground mt-1">{detail}</div>}
       {isInput && !warning && <span className="text-xs text-primary">Input</span>}
-      {warning && <span className="text-xs text-amber-600">Exceeds Scale</span>}
+      {warning && <span className="text-xs text-amber-600">{warningText}</span>}
     </div>
   );
 }
@@ -0,0 +1,152 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ComplianceIndicator, RoomTypeSelect } from "./ComplianceChecker";
+import { formatSoundValue } from "@/lib/conversions";
+import { getRoomTypeById } from "@/lib/ashrae";
+import type { ExtractedSoundData } from "@/lib/parsing";
+import {
+  AHRI885_PATH_LABELS,
+  CEILING_TYPE_LABELS,
+  TERMINAL_SIZE_LABELS,
+  evaluateAHRI885Rows,
+  type CeilingType,
+  type TerminalSize,
+} from "@/lib/hvac-noise";
+
+// Octave bands rated by AHRI 885
+const RATED_FREQUENCIES = [125, 250, 500, 1000, 2000, 4000] as const;
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+interface AHRI885CalculatorProps {
+  /** Rows extracted from uploaded submittals */
+  rows: ExtractedSoundData[];
+}
+
+export function AHRI885Calculator({ rows }: AHRI885CalculatorProps) {
+  const id = useId();
+  const [roomId, setRoomId] = useState<string>("");
+  const [ceiling, setCeiling] = useState<CeilingType>("mineral-fiber");
+  const [terminalSize, setTerminalSize] = useState<TerminalSize | "schedule">("schedule");
+
+  const roomType = roomId ? getRoomTypeById(roomId) : undefined;
+
+  const results = useMemo(() => {
+    if (!roomType) return [];
+    return evaluateAHRI885Rows(rows, roomType, ceiling, terminalSize === "schedule" ? undefined : terminalSize);
+  }, [rows, roomType, ceiling, terminalSize]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">AHRI 885 Terminal Units</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Room NC from VAV terminal discharge and radiated sound power (Appendix E default attenuation)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-room`}>Target Room Type</Label>
+          <RoomTypeSelect id={`${id}-room`} value={roomId} onValueChange={setRoomId} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-size`} className="text-[10px] text-muted-foreground">Terminal Size (discharge)</Label>
+            <Select value={terminalSize} onValueChange={(v) => setTerminalSize(v as TerminalSize | "schedule")}>
+              <SelectTrigger id={`${id}-size`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="schedule">From scheduled airflow</SelectItem>
+                {(Object.keys(TERMINAL_SIZE_LABELS) as TerminalSize[]).map((size) => (
+                  <SelectItem key={size} value={size}>
+                    {TERMINAL_SIZE_LABELS[size]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-ceiling`} className="text-[10px] text-muted-foreground">Ceiling (radiated)</Label>
+            <Select value={ceiling} onValueChange={(v) => setCeiling(v as CeilingType)}>
+              <SelectTrigger id={`${id}-ceiling`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CEILING_TYPE_LABELS) as CeilingType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {CEILING_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Row results */}
+        {roomType && results.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left py-1 pr-2 font-medium">Row</th>
+                  <th className="text-left py-1 pr-2 font-medium">Path</th>
+                  {RATED_FREQUENCIES.map((freq) => (
+                    <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                  ))}
+                  <th className="py-1 px-1 font-medium text-right">NC</th>
+                  <th className="py-1 pl-2 font-medium text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result, index) => (
+                  <tr key={index} className="border-b border-border">
+                    <td className="py-1 pr-2">
+                      <div>{result.label}</div>
+                      {(result.inletPressure || result.airflow) && (
+                        <div className="text-[10px] text-muted-foreground">
+                          {[result.airflow, result.inletPressure].filter(Boolean).join(", ")}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      <div>{AHRI885_PATH_LABELS[result.path]}</div>
+                      {result.terminalSize && (
+                        <div className="text-[10px] text-muted-foreground capitalize">{result.terminalSize}</div>
+                      )}
+                    </td>
+                    {RATED_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{result.roomSpectrum[freq]}</td>
+                    ))}
+                    <td className="py-1 px-1 text-right font-medium">{formatSoundValue(result.nc, "nc")}</td>
+                    <td className="py-1 pl-2 text-right">
+                      <ComplianceIndicator status={result.compliance.status} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {roomType && results.length === 0 && (
+          <div className="p-4 rounded-md border border-dashed border-muted-foreground/30 text-center">
+            <p className="text-body-sm text-muted-foreground">
+              Upload a terminal unit submittal. Discharge and radiated (casing) sound power rows appear here.
+            </p>
+          </div>
+        )}
+
+        <p className="text-micro text-muted-foreground">
+          Room sound pressure is LW minus the AHRI 885 environmental adjustment factor in each band (125 Hz - 4 kHz).
+          Target {roomType ? `NC ${roomType.ncMin}-${roomType.ncMax}` : "set by the room type"}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PathSource } from "./PathCalculator";
+import {
+  BACKGROUND_CORRECTION_STATUS_LABELS,
+  correctForBackground,
+  getBandFrequencies,
+  type BackgroundCorrectionResult,
+  type BackgroundCorrectionStatus,
+  type OctaveBandData,
+} from "@/lib/conversions";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+const STATUS_CLASSES: Record<BackgroundCorrectionStatus, string> = {
+  uncorrected: "text-muted-foreground",
+  corrected: "text-[#16DA7C]",
+  invalid: "text-red-600",
+};
+
+const STATUS_SHORT_LABELS: Record<BackgroundCorrectionStatus, string> = {
+  uncorrected: "OK",
+  corrected: "Corr.",
+  invalid: "Invalid",
+};
+
+interface BackgroundCorrectionProps {
+  /** Measured total sound pressure (source and background) */
+  measured: OctaveBandData;
+  /** Saved data that can be used as the background measurement */
+  backgrounds: PathSource[];
+  /** Called with the corrected spectrum and the background it was corrected for */
+  onSave?: (result: BackgroundCorrectionResult, background: PathSource) => void;
+}
+
+export function BackgroundCorrection({ measured, backgrounds, onSave }: BackgroundCorrectionProps) {
+  const id = useId();
+  const [backgroundId, setBackgroundId] = useState<string>("");
+
+  const background = backgrounds.find((item) => item.id === backgroundId);
+
+  const correction = useMemo(
+    () => (background ? correctForBackground(measured, background.octaveBands) : undefined),
+    [measured, background]
+  );
+
+  const frequencies = getBandFrequencies(measured);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">Background Noise Correction</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Remove ambient noise from a field measurement before comparing it to the specification
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-background`} className="text-[10px] text-muted-foreground">Background Measurement (source off)</Label>
+          <Select value={backgroundId} onValueChange={setBackgroundId}>
+            <SelectTrigger id={`${id}-background`} className="h-7 text-xs">
+              <SelectValue placeholder={backgrounds.length ? "Select saved data..." : "Save the background measurement first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {backgrounds.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {background && correction && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Band</th>
+                    {frequencies.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">Measured</td>
+                    {frequencies.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{measured[freq]}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">Background</td>
+                    {frequencies.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{background.octaveBands[freq] ?? "-"}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2 font-medium">Corrected</td>
+                    {frequencies.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right font-medium">
+                        {correction.status[freq] === "invalid" ? "≤" : ""}{correction.octaveBands[freq]}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-2 text-muted-foreground">Status</td>
+                    {frequencies.map((freq) => {
+                      const status = correction.status[freq];
+                      return (
+                        <td
+                          key={freq}
+                          className={`py-1 px-1 text-right ${status ? STATUS_CLASSES[status] : "text-muted-foreground"}`}
+                          title={status ? BACKGROUND_CORRECTION_STATUS_LABELS[status] : "No background data"}
+                        >
+                          {status ? STATUS_SHORT_LABELS[status] : "-"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {correction.invalidBands.length > 0 && (
+              <p className="text-xs text-amber-700">
+                {correction.invalidBands.map((freq) => `${formatFrequency(freq)} Hz`).join(", ")}{" "}
+                {correction.invalidBands.length === 1 ? "is" : "are"} less than 3 dB above background. These levels
+                are upper bounds only; measure again with lower background noise.
+              </p>
+            )}
+
+            {onSave && (
+              <div className="flex justify-end">
+                <Button onClick={() => onSave(correction, background)} size="sm" variant="outline">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Corrected Spectrum
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        <p className="text-micro text-muted-foreground">
+          No correction more than 10 dB above background; 3 - 10 dB above background is corrected by
+          -10 log(1 - 10^(-ΔL/10)); less than 3 dB is invalid (ANSI S12.72, ISO 3744).
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
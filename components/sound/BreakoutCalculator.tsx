@@ -0,0 +1,215 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NCCurveChart } from "./NCCurveChart";
+import { DuctFields, NumberField, RoomEffectFields } from "./PathFields";
+import type { PathSource } from "./PathCalculator";
+import {
+  calculateNCTangency,
+  formatSoundValue,
+  getNeighborNCCurves,
+  OCTAVE_BAND_FREQUENCIES,
+  type OctaveBandData,
+} from "@/lib/conversions";
+import {
+  CEILING_TRANSMISSION_LOSS,
+  CEILING_TYPE_LABELS,
+  STEEL_GAUGE_MASS,
+  breakoutToRoom,
+  calculateBreakout,
+  type BreakoutDuct,
+  type CeilingType,
+  type RoomEffectInput,
+  type SteelGauge,
+} from "@/lib/hvac-noise";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+interface BreakoutCalculatorProps {
+  /** Saved in-duct sound power data */
+  sources: PathSource[];
+  /** Called with the room sound pressure to save it as a new data item */
+  onSaveRoom?: (soundPressure: OctaveBandData, source: PathSource) => void;
+}
+
+export function BreakoutCalculator({ sources, onSaveRoom }: BreakoutCalculatorProps) {
+  const id = useId();
+  const [sourceId, setSourceId] = useState<string>("");
+  const [run, setRun] = useState<BreakoutDuct>({
+    duct: { shape: "rectangular", width: 24, height: 12 },
+    gauge: 22,
+    length: 20,
+  });
+  const [ceiling, setCeiling] = useState<CeilingType>("mineral-fiber");
+  const [room, setRoom] = useState<RoomEffectInput>({
+    method: "schultz",
+    room: { length: 30, width: 30, height: 9 },
+    distance: 6,
+    sourceCount: 1,
+    position: "surface",
+  });
+
+  const source = sources.find((s) => s.id === sourceId);
+
+  const breakout = useMemo(() => {
+    if (!source || run.length <= 0 || run.duct.width <= 0 || (run.duct.shape === "rectangular" && run.duct.height <= 0)) {
+      return undefined;
+    }
+    const radiated = calculateBreakout(source.octaveBands, run);
+    const soundPressure = breakoutToRoom(radiated, ceiling, room);
+    return { radiated, soundPressure, tangency: calculateNCTangency(soundPressure) };
+  }, [source, run, ceiling, room]);
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-body-lg font-bold">Duct Breakout</CardTitle>
+          <CardDescription className="text-body-sm text-muted-foreground">
+            Noise radiated through the duct walls into the ceiling plenum and the room below
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* In-duct sound power */}
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-source`}>In-Duct Sound Power (LW)</Label>
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger id={`${id}-source`} className="w-full">
+                <SelectValue placeholder={sources.length ? "Select saved sound power data..." : "Save sound power data first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Duct */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <span className="text-sm font-medium">Duct</span>
+            <div className="grid grid-cols-5 gap-2">
+              <DuctFields id={`${id}-duct`} duct={run.duct} onChange={(duct) => setRun({ ...run, duct })} />
+              <div className="space-y-1">
+                <Label htmlFor={`${id}-gauge`} className="text-[10px] text-muted-foreground">Gauge</Label>
+                <Select value={run.gauge.toString()} onValueChange={(v) => setRun({ ...run, gauge: parseInt(v) as SteelGauge })}>
+                  <SelectTrigger id={`${id}-gauge`} className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(STEEL_GAUGE_MASS).map((gauge) => (
+                      <SelectItem key={gauge} value={gauge}>
+                        {gauge} ga
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <NumberField id={`${id}-length`} label="Length (ft)" value={run.length} onChange={(length) => setRun({ ...run, length })} />
+            </div>
+          </div>
+
+          {/* Ceiling and room */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <span className="text-sm font-medium">Ceiling and Room</span>
+            <div className="space-y-1">
+              <Label htmlFor={`${id}-ceiling`} className="text-[10px] text-muted-foreground">Ceiling</Label>
+              <Select value={ceiling} onValueChange={(v) => setCeiling(v as CeilingType)}>
+                <SelectTrigger id={`${id}-ceiling`} className="h-7 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CEILING_TYPE_LABELS) as CeilingType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {CEILING_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <RoomEffectFields id={`${id}-room`} input={room} onChange={setRoom} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {source && breakout && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Breakout Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Stage</th>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2 font-medium">In-Duct LW</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{source.octaveBands[freq]}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">Radiated LW</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{breakout.radiated[freq]}</td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">
+                      <div>Ceiling TL</div>
+                      <div className="text-[10px] text-muted-foreground">{CEILING_TYPE_LABELS[ceiling]}</div>
+                    </td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right text-muted-foreground">−{CEILING_TRANSMISSION_LOSS[ceiling][freq]}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-2 font-medium">Room LP</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right font-medium">{breakout.soundPressure[freq]}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-detail">
+                <span className="text-muted-foreground">Room: </span>
+                <span className="font-medium">{formatSoundValue(breakout.tangency.rating, "nc")}</span>
+                <span className="text-muted-foreground"> set by the {formatFrequency(breakout.tangency.controllingFrequency)} Hz band</span>
+              </div>
+              {onSaveRoom && (
+                <Button onClick={() => onSaveRoom(breakout.soundPressure, source)} size="sm" variant="outline">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Room Spectrum
+                </Button>
+              )}
+            </div>
+
+            <NCCurveChart
+              userData={breakout.soundPressure}
+              height={350}
+              showCurves={getNeighborNCCurves(breakout.tangency.rating)}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
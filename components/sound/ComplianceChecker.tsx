@@ -18,9 +18,12 @@ import {
   getRoomTypeById,
   getCategoryForRoom,
   checkCompliance,
+  checkNRCompliance,
   type RoomType,
   type ComplianceResult,
+  type RatingCriterion,
 } from "@/lib/ashrae";
+import type { ValueRange } from "@/lib/conversions";
 
 // BuildVision colors for status indicators
 const STATUS_COLORS = {
@@ -52,15 +55,47 @@ const STATUS_COLORS = {
     icon: "✗",
     label: "Fail",
   },
+  indeterminate: {
+    bg: "bg-[#6C6C71]/10",
+    border: "border-[#6C6C71]",
+    text: "text-[#6C6C71]",
+    icon: "?",
+    label: "Indeterminate",
+  },
+};
+
+// Specified NR limits offered in NR mode (typical project spec values)
+const NR_LIMIT_OPTIONS = [20, 25, 30, 35, 40, 45, 50, 55];
+
+// Compliance bar scale for each criterion (NC curves run 15-70, NR specs 10-80)
+const COMPLIANCE_BAR_SCALES: Record<RatingCriterion, { min: number; max: number }> = {
+  NC: { min: 15, max: 70 },
+  NR: { min: 10, max: 80 },
 };
 
 interface ComplianceCheckerProps {
   equipmentNC: number | undefined;
+  /** Equipment NR rating, used when criterion is "NR" */
+  equipmentNR?: number;
+  /** Rating criterion to check - NC against ASHRAE room types, NR against a specified limit */
+  criterion?: RatingCriterion;
+  /** Octave band (Hz) that sets the equipment NC (tangency method) */
+  controllingFrequency?: number;
+  /** Uncertainty range of an NC converted from a single-number rating */
+  equipmentNCRange?: ValueRange;
   onRoomTypeChange?: (roomType: RoomType | undefined) => void;
 }
 
-export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceCheckerProps) {
+export function ComplianceChecker({
+  equipmentNC,
+  equipmentNR,
+  criterion = "NC",
+  controllingFrequency,
+  equipmentNCRange,
+  onRoomTypeChange,
+}: ComplianceCheckerProps) {
   const [selectedRoomId, setSelectedRoomId] = useState<string>("");
+  const [nrLimit, setNRLimit] = useState<string>("");
   
   const selectedRoom = useMemo(() => {
     return selectedRoomId ? getRoomTypeById(selectedRoomId) : undefined;
@@ -70,9 +105,13 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
   const exceedsScale = equipmentNC !== undefined && equipmentNC > 70;
   
   const compliance = useMemo(() => {
+    if (criterion === "NR") {
+      if (equipmentNR === undefined || !nrLimit) return undefined;
+      return checkNRCompliance(equipmentNR, parseInt(nrLimit));
+    }
     if (equipmentNC === undefined || !selectedRoom) return undefined;
-    return checkCompliance(equipmentNC, selectedRoom);
-  }, [equipmentNC, selectedRoom]);
+    return checkCompliance(equipmentNC, selectedRoom, controllingFrequency, equipmentNCRange);
+  }, [criterion, equipmentNC, equipmentNR, nrLimit, selectedRoom, controllingFrequency, equipmentNCRange]);
   
   const categoryInfo = useMemo(() => {
     if (!selectedRoomId) return undefined;
@@ -85,6 +124,49 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
     onRoomTypeChange?.(room);
   };
 
+  if (criterion === "NR") {
+    return (
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-body-lg font-bold">NR Compliance Check</CardTitle>
+          <CardDescription className="text-body-sm text-muted-foreground">
+            Compare equipment noise against the specified ISO Noise Rating limit
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* NR Limit Selector */}
+          <div className="space-y-2">
+            <Label htmlFor="nr-limit">Specified NR Limit</Label>
+            <Select value={nrLimit} onValueChange={setNRLimit}>
+              <SelectTrigger id="nr-limit" className="w-full">
+                <SelectValue placeholder="Select the specified NR..." />
+              </SelectTrigger>
+              <SelectContent>
+                {NR_LIMIT_OPTIONS.map((limit) => (
+                  <SelectItem key={limit} value={limit.toString()}>
+                    NR-{limit}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Compliance Result */}
+          {compliance && <ComplianceResultDisplay result={compliance} />}
+
+          {/* No NR Rating Message */}
+          {nrLimit && equipmentNR === undefined && (
+            <div className="p-4 rounded-md border border-dashed border-muted-foreground/30 text-center">
+              <p className="text-body-sm text-muted-foreground">
+                Enter octave band data above to check compliance with NR-{nrLimit}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full">
       <CardHeader className="pb-3">
@@ -97,38 +179,7 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
         {/* Room Type Selector */}
         <div className="space-y-2">
           <Label htmlFor="room-type">Target Room Type</Label>
-          <Select value={selectedRoomId} onValueChange={handleRoomChange}>
-            <SelectTrigger id="room-type" className="w-full">
-              <SelectValue placeholder="Select a room type..." />
-            </SelectTrigger>
-            <SelectContent className="max-h-[300px]">
-              {ROOM_CATEGORIES.map((category) => {
-                const roomsInCategory = ROOM_TYPES.filter(
-                  (room) => room.category === category.id
-                );
-                if (roomsInCategory.length === 0) return null;
-                
-                return (
-                  <SelectGroup key={category.id}>
-                    <SelectLabel className="flex items-center gap-2 text-muted-foreground">
-                      <span>{category.icon}</span>
-                      <span>{category.name}</span>
-                    </SelectLabel>
-                    {roomsInCategory.map((room) => (
-                      <SelectItem key={room.id} value={room.id}>
-                        <div className="flex items-center justify-between w-full">
-                          <span>{room.name}</span>
-                          <span className="text-muted-foreground text-micro ml-2">
-                            NC {room.ncMin}-{room.ncMax}
-                          </span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectGroup>
-                );
-              })}
-            </SelectContent>
-          </Select>
+          <RoomTypeSelect id="room-type" value={selectedRoomId} onValueChange={handleRoomChange} />
         </div>
 
         {/* Selected Room Info */}
@@ -148,6 +199,9 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
                 <div>
                   <span className="text-muted-foreground">Equipment: </span>
                   <span className="font-medium">NC {equipmentNC}</span>
+                  {equipmentNCRange && (
+                    <span className="text-muted-foreground"> ({equipmentNCRange.min}-{equipmentNCRange.max})</span>
+                  )}
                 </div>
               )}
             </div>
@@ -156,7 +210,7 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
 
         {/* Compliance Result */}
         {compliance && (
-          <ComplianceResultDisplay result={compliance} roomType={selectedRoom!} />
+          <ComplianceResultDisplay result={compliance} />
         )}
 
         {/* No NC Rating Message */}
@@ -172,12 +226,57 @@ export function ComplianceChecker({ equipmentNC, onRoomTypeChange }: ComplianceC
   );
 }
 
+interface RoomTypeSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (roomId: string) => void;
+}
+
+/**
+ * ASHRAE room type selector grouped by category
+ */
+export function RoomTypeSelect({ id, value, onValueChange }: RoomTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-full">
+        <SelectValue placeholder="Select a room type..." />
+      </SelectTrigger>
+      <SelectContent className="max-h-[300px]">
+        {ROOM_CATEGORIES.map((category) => {
+          const roomsInCategory = ROOM_TYPES.filter(
+            (room) => room.category === category.id
+          );
+          if (roomsInCategory.length === 0) return null;
+      
+          return (
+            <SelectGroup key={category.id}>
+              <SelectLabel className="flex items-center gap-2 text-muted-foreground">
+                <span>{category.icon}</span>
+                <span>{category.name}</span>
+              </SelectLabel>
+              {roomsInCategory.map((room) => (
+                <SelectItem key={room.id} value={room.id}>
+                  <div className="flex items-center justify-between w-full">
+                    <span>{room.name}</span>
+                    <span className="text-muted-foreground text-micro ml-2">
+                      NC {room.ncMin}-{room.ncMax}
+                    </span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
+
 interface ComplianceResultDisplayProps {
   result: ComplianceResult;
-  roomType: RoomType;
 }
 
-function ComplianceResultDisplay({ result, roomType }: ComplianceResultDisplayProps) {
+function ComplianceResultDisplay({ result }: ComplianceResultDisplayProps) {
   const statusStyle = STATUS_COLORS[result.status];
   
   return (
@@ -194,7 +293,7 @@ function ComplianceResultDisplay({ result, roomType }: ComplianceResultDisplayPr
         </div>
         <div className="text-right">
           <div className={`text-h5 font-bold ${statusStyle.text}`}>
-            NC {result.equipmentNC}
+            {result.criterion} {result.equipmentNC}
           </div>
           <div className="text-micro text-muted-foreground">
             Equipment Rating
@@ -205,10 +304,12 @@ function ComplianceResultDisplay({ result, roomType }: ComplianceResultDisplayPr
       {/* Visual Bar */}
       <div className="mb-3">
         <NCComplianceBar 
+          criterion={result.criterion}
           equipmentNC={result.equipmentNC} 
           targetMin={result.targetNCMin} 
           targetMax={result.targetNCMax}
           status={result.status}
+          equipmentRange={result.equipmentRange}
         />
       </div>
 
@@ -219,16 +320,26 @@ function ComplianceResultDisplay({ result, roomType }: ComplianceResultDisplayPr
       <div className="mt-3 pt-3 border-t border-current/10 grid grid-cols-3 gap-2 text-center">
         <div>
           <div className="text-micro text-muted-foreground">Target Range</div>
-          <div className="font-medium text-detail">NC {roomType.ncMin}-{roomType.ncMax}</div>
+          <div className="font-medium text-detail">{result.criterion} {result.targetNCMin}-{result.targetNCMax}</div>
         </div>
         <div>
           <div className="text-micro text-muted-foreground">Equipment</div>
-          <div className="font-medium text-detail">NC {result.equipmentNC}</div>
+          <div className="font-medium text-detail">{result.criterion} {result.equipmentNC}</div>
+          {result.equipmentRange && (
+            <div className="text-micro text-muted-foreground">
+              range {result.equipmentRange.min}-{result.equipmentRange.max}
+            </div>
+          )}
+          {result.controllingFrequency !== undefined && (
+            <div className="text-micro text-muted-foreground">
+              @ {result.controllingFrequency >= 1000 ? `${result.controllingFrequency / 1000}k` : result.controllingFrequency} Hz
+            </div>
+          )}
         </div>
         <div>
           <div className="text-micro text-muted-foreground">Margin</div>
           <div className={`font-medium text-detail ${result.margin >= 0 ? 'text-[#16DA7C]' : 'text-[#EC4343]'}`}>
-            {result.margin >= 0 ? '+' : ''}{result.margin} NC
+            {result.margin >= 0 ? '+' : ''}{result.margin} {result.criterion}
           </div>
         </div>
       </div>
@@ -237,21 +348,23 @@ function ComplianceResultDisplay({ result, roomType }: ComplianceResultDisplayPr
 }
 
 interface NCComplianceBarProps {
+  criterion: RatingCriterion;
   equipmentNC: number;
   targetMin: number;
   targetMax: number;
   status: ComplianceResult["status"];
+  equipmentRange?: ValueRange;
 }
 
-function NCComplianceBar({ equipmentNC, targetMin, targetMax, status }: NCComplianceBarProps) {
-  // Calculate positions (scale from NC 15 to NC 70)
-  const minNC = 15;
-  const maxNC = 70;
+function NCComplianceBar({ criterion, equipmentNC, targetMin, targetMax, status, equipmentRange }: NCComplianceBarProps) {
+  // Calculate positions (NC 15 to NC 70, NR 10 to NR 80)
+  const { min: minNC, max: maxNC } = COMPLIANCE_BAR_SCALES[criterion];
   const range = maxNC - minNC;
   
   const targetMinPos = ((targetMin - minNC) / range) * 100;
   const targetMaxPos = ((targetMax - minNC) / range) * 100;
-  const equipmentPos = Math.min(100, Math.max(0, ((equipmentNC - minNC) / range) * 100));
+  const toPos = (nc: number) => Math.min(100, Math.max(0, ((nc - minNC) / range) * 100));
+  const equipmentPos = toPos(equipmentNC);
   
   const statusStyle = STATUS_COLORS[status];
   
@@ -287,18 +400,30 @@ function NCComplianceBar({ equipmentNC, targetMin, targetMax, status }: NCCompli
         style={{ left: `${targetMaxPos}%` }}
       />
       
+      {/* Equipment uncertainty range */}
+      {equipmentRange && (
+        <div 
+          className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-[#6C6C71]/40"
+          style={{
+            left: `${toPos(equipmentRange.min)}%`,
+            width: `${toPos(equipmentRange.max) - toPos(equipmentRange.min)}%`,
+          }}
+        />
+      )}
+      
       {/* Equipment position marker */}
       <div 
         className={`absolute top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-white shadow-md ${
           status === 'excellent' || status === 'good' ? 'bg-[#16DA7C]' : 
-          status === 'marginal' ? 'bg-[#FFCC17]' : 'bg-[#EC4343]'
+          status === 'marginal' ? 'bg-[#FFCC17]' :
+          status === 'indeterminate' ? 'bg-[#6C6C71]' : 'bg-[#EC4343]'
         }`}
         style={{ left: `calc(${equipmentPos}% - 8px)` }}
       />
       
       {/* Scale labels */}
-      <div className="absolute bottom-0 left-0 text-micro text-muted-foreground px-1">15</div>
-      <div className="absolute bottom-0 right-0 text-micro text-muted-foreground px-1">70</div>
+      <div className="absolute bottom-0 left-0 text-micro text-muted-foreground px-1">{minNC}</div>
+      <div className="absolute bottom-0 right-0 text-micro text-muted-foreground px-1">{maxNC}</div>
     </div>
   );
 }
@@ -0,0 +1,244 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NCCurveChart } from "./NCCurveChart";
+import { DuctFields, NumberField, RoomEffectFields } from "./PathFields";
+import type { PathSource } from "./PathCalculator";
+import {
+  formatSoundValue,
+  getNeighborNCCurves,
+  OCTAVE_BAND_FREQUENCIES,
+  type OctaveBandData,
+} from "@/lib/conversions";
+import {
+  CATALOG_ROOM_ATTENUATION,
+  calculateDiffuserNoise,
+  type DuctSection,
+  type RoomEffectInput,
+} from "@/lib/hvac-noise";
+
+type RatingMode = "nc" | "soundPower";
+
+type RoomMode = "attenuation" | "room-effect";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+interface DiffuserCalculatorProps {
+  /** Saved data that can be used as a catalog sound power spectrum */
+  sources: PathSource[];
+  /** Called with the room sound pressure to save it as a new data item */
+  onSaveRoom?: (soundPressure: OctaveBandData, name: string) => void;
+}
+
+export function DiffuserCalculator({ sources, onSaveRoom }: DiffuserCalculatorProps) {
+  const id = useId();
+  const [ratingMode, setRatingMode] = useState<RatingMode>("nc");
+  const [catalogNC, setCatalogNC] = useState(25);
+  const [catalogSourceId, setCatalogSourceId] = useState<string>("");
+  const [catalogNeck, setCatalogNeck] = useState<DuctSection>({ shape: "round", width: 10, height: 10 });
+  const [catalogAirflow, setCatalogAirflow] = useState(300);
+  const [neck, setNeck] = useState<DuctSection>({ shape: "round", width: 10, height: 10 });
+  const [airflow, setAirflow] = useState(350);
+  const [count, setCount] = useState(6);
+  const [roomMode, setRoomMode] = useState<RoomMode>("attenuation");
+  const [attenuation, setAttenuation] = useState(CATALOG_ROOM_ATTENUATION);
+  const [room, setRoom] = useState<RoomEffectInput>({
+    method: "thompson",
+    room: { length: 40, width: 30, height: 9 },
+    distance: 6,
+    sourceCount: 1,
+    position: "surface",
+  });
+
+  const catalogSource = sources.find((s) => s.id === catalogSourceId);
+
+  const diffuser = useMemo(() => {
+    if (ratingMode === "soundPower" && !catalogSource) return undefined;
+    return calculateDiffuserNoise({
+      rating: {
+        neck: catalogNeck,
+        airflow: catalogAirflow,
+        ...(ratingMode === "nc" ? { nc: catalogNC } : { soundPower: catalogSource?.octaveBands }),
+      },
+      neck,
+      airflow,
+      count,
+      roomAttenuation: roomMode === "attenuation" ? attenuation : room,
+    });
+  }, [ratingMode, catalogNC, catalogSource, catalogNeck, catalogAirflow, neck, airflow, count, roomMode, attenuation, room]);
+
+  const roomSpectrum = diffuser?.room.octaveBands;
+  const roomNC = diffuser?.room.nc ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-body-lg font-bold">Diffusers and Grilles</CardTitle>
+          <CardDescription className="text-body-sm text-muted-foreground">
+            Scale a catalog rating for the design airflow, outlet count and room attenuation
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Catalog rating */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <span className="text-sm font-medium">Catalog Rating (one outlet)</span>
+            <div className="grid grid-cols-4 gap-2">
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor={`${id}-rating`} className="text-[10px] text-muted-foreground">Rating</Label>
+                <Select value={ratingMode} onValueChange={(v) => setRatingMode(v as RatingMode)}>
+                  <SelectTrigger id={`${id}-rating`} className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="nc">Catalog NC</SelectItem>
+                    <SelectItem value="soundPower">Sound power (saved data)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {ratingMode === "nc" ? (
+                <NumberField id={`${id}-nc`} label="NC" value={catalogNC} onChange={setCatalogNC} />
+              ) : (
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor={`${id}-source`} className="text-[10px] text-muted-foreground">Sound Power (LW)</Label>
+                  <Select value={catalogSourceId} onValueChange={setCatalogSourceId}>
+                    <SelectTrigger id={`${id}-source`} className="h-7 text-xs">
+                      <SelectValue placeholder={sources.length ? "Select saved data..." : "Save sound power data first"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sources.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {s.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <DuctFields id={`${id}-catalog-neck`} duct={catalogNeck} onChange={setCatalogNeck} />
+              <NumberField id={`${id}-catalog-airflow`} label="Airflow (CFM)" value={catalogAirflow} onChange={setCatalogAirflow} />
+            </div>
+          </div>
+
+          {/* Design */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <span className="text-sm font-medium">Design</span>
+            <div className="grid grid-cols-5 gap-2">
+              <DuctFields id={`${id}-neck`} duct={neck} onChange={setNeck} />
+              <NumberField id={`${id}-airflow`} label="Airflow per Outlet (CFM)" value={airflow} onChange={setAirflow} />
+              <NumberField id={`${id}-count`} label="Outlets" value={count} onChange={(value) => setCount(Math.max(1, Math.round(value)))} />
+            </div>
+          </div>
+
+          {/* Room */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <span className="text-sm font-medium">Room</span>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor={`${id}-room-mode`} className="text-[10px] text-muted-foreground">Room Correction</Label>
+                <Select value={roomMode} onValueChange={(v) => setRoomMode(v as RoomMode)}>
+                  <SelectTrigger id={`${id}-room-mode`} className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="attenuation">Room attenuation (dB)</SelectItem>
+                    <SelectItem value="room-effect">Room effect calculation</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {roomMode === "attenuation" && (
+                <NumberField id={`${id}-attenuation`} label="Attenuation (dB)" value={attenuation} onChange={setAttenuation} />
+              )}
+            </div>
+            {roomMode === "room-effect" && <RoomEffectFields id={`${id}-room`} input={room} onChange={setRoom} hideSourceCount />}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {diffuser && roomSpectrum && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Diffuser Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-4 text-detail">
+              <div>
+                <span className="text-muted-foreground">Neck velocity: </span>
+                <span className="font-medium">{diffuser.neckVelocity} fpm</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Airflow correction: </span>
+                <span className="font-medium">{diffuser.airflowCorrection > 0 ? "+" : ""}{diffuser.airflowCorrection} dB</span>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Stage</th>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">LW per Outlet</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{diffuser.soundPower[freq]}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-2 font-medium">Room LP</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right font-medium">{roomSpectrum[freq]}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-detail">
+                <span className="text-muted-foreground">Room: </span>
+                <span className="font-medium">{formatSoundValue(roomNC, "nc")}</span>
+                <span className="text-muted-foreground">, {formatSoundValue(diffuser.room.dba ?? 0, "dba")}</span>
+              </div>
+              {onSaveRoom && (
+                <Button
+                  onClick={() => onSaveRoom(roomSpectrum, `${count} Diffusers @ ${airflow} CFM`)}
+                  size="sm"
+                  variant="outline"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Room Spectrum
+                </Button>
+              )}
+            </div>
+
+            <NCCurveChart
+              userData={roomSpectrum}
+              height={350}
+              showCurves={getNeighborNCCurves(roomNC)}
+              estimated={diffuser.estimated}
+            />
+            {diffuser.estimated && (
+              <p className="text-micro text-muted-foreground">
+                Spectrum estimated from the catalog NC with a typical diffuser shape. Use published sound power data for band-by-band results.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
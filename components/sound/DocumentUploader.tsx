@@ -14,7 +14,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import type { ParseResult, ExtractedSoundData } from "@/lib/parsing";
 import { parseFile, parseText, parseSpecSheetText, parsePDFWithVision, parseImageWithVision, initializeGemini } from "@/lib/parsing";
-import type { OctaveBandData } from "@/lib/conversions";
+import type { OctaveBandData, ThirdOctaveBandData } from "@/lib/conversions";
+import { thirdOctaveToOctaveBands, THIRD_OCTAVE_BAND_FREQUENCIES } from "@/lib/conversions";
 
 interface DocumentUploaderProps {
   onDataExtracted?: (data: ExtractedSoundData) => void;
@@ -83,6 +84,7 @@ export function DocumentUploader({ onDataExtracted, onOctaveBandsExtracted }: Do
     
     if (extractedData.octaveBands) {
       const bands: OctaveBandData = {
+        31.5: extractedData.octaveBands.hz31_5,
         63: extractedData.octaveBands.hz63 ?? 0,
         125: extractedData.octaveBands.hz125 ?? 0,
         250: extractedData.octaveBands.hz250 ?? 0,
@@ -91,8 +93,16 @@ export function DocumentUploader({ onDataExtracted, onOctaveBandsExtracted }: Do
         2000: extractedData.octaveBands.hz2000 ?? 0,
         4000: extractedData.octaveBands.hz4000 ?? 0,
         8000: extractedData.octaveBands.hz8000 ?? 0,
+        16000: extractedData.octaveBands.hz16000,
       };
       onOctaveBandsExtracted?.(bands);
+    } else if (extractedData.thirdOctaveBands) {
+      const thirdOctaveBands = THIRD_OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+        const level = extractedData.thirdOctaveBands![`hz${String(freq).replace(".", "_")}`];
+        if (level !== undefined) acc[freq] = level;
+        return acc;
+      }, {} as ThirdOctaveBandData);
+      onOctaveBandsExtracted?.(thirdOctaveToOctaveBands(thirdOctaveBands));
     }
   }, [onDataExtracted, onOctaveBandsExtracted]);
 
@@ -481,6 +491,11 @@ export function DocumentUploader({ onDataExtracted, onOctaveBandsExtracted }: Do
                         ✓ Octave bands: {Object.values(selectedData.octaveBands).filter(v => v !== undefined).length} frequencies
                       </p>
                     )}
+                    {selectedData.thirdOctaveBands && (
+                      <p className="text-foreground">
+                        ✓ 1/3 octave bands: {Object.keys(selectedData.thirdOctaveBands).length} frequencies
+                      </p>
+                    )}
                     {selectedData.ncRating && (
                       <p className="text-foreground">
                         ✓ NC Rating: NC-{selectedData.ncRating}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NumberField } from "./PathFields";
+import {
+  FAN_LAW_BASIS_LABELS,
+  getAvailableFanLawBases,
+  getBandFrequencies,
+  getFanLawCorrection,
+  scaleOperatingPoint,
+  scaleSpectrumByFanLaw,
+  type FanLawBasis,
+  type FanOperatingPoint,
+  type OctaveBandData,
+} from "@/lib/conversions";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+// Short label for an operating point, by the value that best identifies it
+function describeOperatingPoint(point: FanOperatingPoint): string {
+  if (point.fanSpeed) return `${point.fanSpeed} rpm`;
+  if (point.airflow) return `${point.airflow} CFM`;
+  return `${point.staticPressure ?? 0} in. w.g.`;
+}
+
+interface FanLawScalerProps {
+  /** Spectrum at the base operating point */
+  spectrum: OctaveBandData;
+  /** Base operating point, e.g. from the submittal conditions */
+  base?: FanOperatingPoint;
+  /** Called with the derived spectrum, its operating point and a short label */
+  onSave?: (spectrum: OctaveBandData, target: FanOperatingPoint, label: string) => void;
+}
+
+interface OperatingPointFieldsProps {
+  id: string;
+  point: FanOperatingPoint;
+  onChange: (point: FanOperatingPoint) => void;
+}
+
+function OperatingPointFields({ id, point, onChange }: OperatingPointFieldsProps) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <NumberField
+        id={`${id}-speed`}
+        label="Fan Speed (rpm)"
+        value={point.fanSpeed ?? 0}
+        onChange={(fanSpeed) => onChange({ ...point, fanSpeed })}
+        step="10"
+      />
+      <NumberField
+        id={`${id}-airflow`}
+        label="Airflow (CFM)"
+        value={point.airflow ?? 0}
+        onChange={(airflow) => onChange({ ...point, airflow })}
+        step="50"
+      />
+      <NumberField
+        id={`${id}-pressure`}
+        label="Static Pressure (in. w.g.)"
+        value={point.staticPressure ?? 0}
+        onChange={(staticPressure) => onChange({ ...point, staticPressure })}
+        step="0.1"
+      />
+    </div>
+  );
+}
+
+export function FanLawScaler({ spectrum, base: initialBase, onSave }: FanLawScalerProps) {
+  const id = useId();
+  const [base, setBase] = useState<FanOperatingPoint>(initialBase ?? {});
+  const [target, setTarget] = useState<FanOperatingPoint>(initialBase ?? {});
+  const [selectedBasis, setBasis] = useState<FanLawBasis>("speed");
+
+  // Fall back to the first fan law both points support
+  const bases = getAvailableFanLawBases(base, target);
+  const basis = bases.includes(selectedBasis) ? selectedBasis : bases[0] ?? selectedBasis;
+
+  const correction = getFanLawCorrection(base, target, basis);
+  const derived = scaleSpectrumByFanLaw(spectrum, base, target, basis);
+
+  // A new speed moves airflow and pressure along the same system curve
+  const handleTargetChange = (point: FanOperatingPoint) => {
+    if (point.fanSpeed !== target.fanSpeed && point.fanSpeed && base.fanSpeed) {
+      setTarget(scaleOperatingPoint(base, point.fanSpeed));
+    } else {
+      setTarget(point);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">Fan Law Scaling</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Derive the spectrum at another fan speed, airflow or static pressure
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 rounded-md border border-border space-y-2">
+          <span className="text-sm font-medium">Base Operating Point</span>
+          <OperatingPointFields id={`${id}-base`} point={base} onChange={setBase} />
+        </div>
+
+        <div className="p-3 rounded-md border border-border space-y-2">
+          <span className="text-sm font-medium">Target Operating Point</span>
+          <OperatingPointFields id={`${id}-target`} point={target} onChange={handleTargetChange} />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-basis`} className="text-[10px] text-muted-foreground">Fan Law</Label>
+          <Select value={basis} onValueChange={(v) => setBasis(v as FanLawBasis)} disabled={bases.length === 0}>
+            <SelectTrigger id={`${id}-basis`} className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {bases.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FAN_LAW_BASIS_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {derived && correction !== undefined ? (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Point</th>
+                    {getBandFrequencies(spectrum).map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2">Base</td>
+                    {getBandFrequencies(spectrum).map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{spectrum[freq]}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-1 pr-2 font-medium">Target</td>
+                    {getBandFrequencies(spectrum).map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right font-medium">{derived[freq]}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-detail">
+                <span className="text-muted-foreground">Correction: </span>
+                <span className="font-medium">{correction > 0 ? "+" : ""}{correction} dB</span>
+              </div>
+              {onSave && (
+                <Button onClick={() => onSave(derived, target, describeOperatingPoint(target))} size="sm" variant="outline">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Derived Spectrum
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Enter the same value (speed, airflow or pressure) for both operating points to scale the spectrum.
+          </p>
+        )}
+
+        <p className="text-micro text-muted-foreground">
+          Fan laws hold for the same fan on the same system curve. Blade-pass tones shift in frequency with speed,
+          so treat large speed changes as estimates.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
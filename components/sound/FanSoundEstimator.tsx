@@ -0,0 +1,148 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NumberField } from "./PathFields";
+import { OCTAVE_BAND_FREQUENCIES, type OctaveBandData } from "@/lib/conversions";
+import {
+  FAN_TYPE_LABELS,
+  estimateFanSoundPower,
+  getBladePassFrequency,
+  type FanType,
+} from "@/lib/hvac-noise";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+interface FanSoundEstimatorProps {
+  /** Called with the estimated sound power to save it as a new data item */
+  onSave?: (soundPower: OctaveBandData, name: string) => void;
+}
+
+export function FanSoundEstimator({ onSave }: FanSoundEstimatorProps) {
+  const id = useId();
+  const [fanType, setFanType] = useState<FanType>("centrifugal-airfoil-small");
+  const [airflow, setAirflow] = useState(10000);
+  const [totalPressure, setTotalPressure] = useState(3);
+  const [fanSpeed, setFanSpeed] = useState(0);
+  const [blades, setBlades] = useState(12);
+  const [efficiencyDeviation, setEfficiencyDeviation] = useState(0);
+
+  const bladePassFrequency = fanSpeed > 0 && blades > 0 ? getBladePassFrequency(fanSpeed, blades) : undefined;
+
+  const estimate = useMemo(
+    () => estimateFanSoundPower({ fanType, airflow, totalPressure, bladePassFrequency, efficiencyDeviation }),
+    [fanType, airflow, totalPressure, bladePassFrequency, efficiencyDeviation]
+  );
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">Fan Sound Power Estimate</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Preliminary inlet or outlet sound power from the fan schedule, before manufacturer data is available
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-type`} className="text-[10px] text-muted-foreground">Fan Type</Label>
+          <Select value={fanType} onValueChange={(v) => setFanType(v as FanType)}>
+            <SelectTrigger id={`${id}-type`} className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FAN_TYPE_LABELS) as FanType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {FAN_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField id={`${id}-airflow`} label="Airflow (CFM)" value={airflow} onChange={setAirflow} step="100" />
+          <NumberField
+            id={`${id}-pressure`}
+            label="Total Pressure (in. w.g.)"
+            value={totalPressure}
+            onChange={setTotalPressure}
+            step="0.1"
+          />
+          <NumberField
+            id={`${id}-efficiency`}
+            label="Below Peak Efficiency (%)"
+            value={efficiencyDeviation}
+            onChange={setEfficiencyDeviation}
+          />
+          <NumberField id={`${id}-speed`} label="Fan Speed (rpm, 0 = unknown)" value={fanSpeed} onChange={setFanSpeed} step="10" />
+          <NumberField id={`${id}-blades`} label="Blades" value={blades} onChange={(value) => setBlades(Math.round(value))} />
+          <div className="space-y-1">
+            <span className="text-[10px] text-muted-foreground">Blade-Pass Frequency</span>
+            <div className="h-7 flex items-center text-xs">{bladePassFrequency ? `${bladePassFrequency} Hz` : "Typical for fan type"}</div>
+          </div>
+        </div>
+
+        {estimate && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Band</th>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td className="py-1 pr-2 font-medium">LW</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td
+                        key={freq}
+                        className={`py-1 px-1 text-right font-medium ${freq === estimate.bladePassBand ? "text-[#4A3AFF]" : ""}`}
+                      >
+                        {estimate.soundPower[freq]}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-detail">
+                <span className="text-muted-foreground">Blade-pass band: </span>
+                <span className="font-medium">
+                  {formatFrequency(estimate.bladePassBand)} Hz (+{estimate.bladeIncrement} dB)
+                </span>
+                {estimate.efficiencyCorrection > 0 && (
+                  <span className="text-muted-foreground">, efficiency +{estimate.efficiencyCorrection} dB</span>
+                )}
+              </div>
+              {onSave && (
+                <Button
+                  onClick={() => onSave(estimate.soundPower, `Fan Estimate ${airflow} CFM @ ${totalPressure} in.`)}
+                  size="sm"
+                  variant="outline"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Sound Power
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        <p className="text-micro text-muted-foreground">
+          Graham method (ASHRAE). Values are inlet or outlet sound power; add 3 dB for total. Expect ±4 dB against
+          tested data, and replace with manufacturer data once it is available.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
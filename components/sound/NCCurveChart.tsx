@@ -8,18 +8,48 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer,
 } from "recharts";
-import { NC_CURVES } from "@/lib/conversions/nc-curves";
-import { OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "@/lib/conversions/types";
+import { NC_CURVES, calculateNCTangency, getNeighborNCCurves } from "@/lib/conversions/nc-curves";
+import { NR_CURVES, calculateNRRating } from "@/lib/conversions/nr-curves";
+import { getRCReferenceCurve, formatRCRating } from "@/lib/conversions/rc-curves";
+import { getBandFrequencies } from "@/lib/conversions/bands";
+import {
+  ExtendedOctaveBandFrequency,
+  NCCurve,
+  OctaveBandData,
+  RCRating,
+  TangencyRating,
+  OCTAVE_BAND_FREQUENCIES,
+} from "@/lib/conversions/types";
+
+// Criterion curve families the chart can draw
+export type CurveFamily = "NC" | "NR";
+
+const CURVE_FAMILIES: Record<CurveFamily, {
+  curves: NCCurve[];
+  rate: (octaveBands: OctaveBandData) => TangencyRating;
+}> = {
+  NC: { curves: NC_CURVES, rate: calculateNCTangency },
+  NR: { curves: NR_CURVES, rate: calculateNRRating },
+};
 
 interface NCCurveChartProps {
   /** User's octave band data to display */
   userData?: OctaveBandData;
   /** Height of the chart */
   height?: number;
-  /** Show only specific NC curves */
+  /** Show only specific curves (ratings within the curve family) */
   showCurves?: number[];
+  /** Criterion curve family to draw (default NC) */
+  curveFamily?: CurveFamily;
+  /** RC Mark II rating - draws the matching RC reference curve */
+  rcRating?: RCRating;
+  /** User data is estimated from a spectrum template - drawn dashed */
+  estimated?: boolean;
+  /** Bands that are only an upper bound (e.g., too close to background noise) - drawn with hollow red markers */
+  invalidBands?: ExtendedOctaveBandFrequency[];
 }
 
 // Format frequency labels for display
@@ -47,15 +77,25 @@ const NC_COLORS: Record<number, string> = {
   70: "#7F1D1D", // Very dark red
 };
 
+// RC reference curve color - distinct from the NC palette and user data
+const RC_COLOR = "#0EA5E9";
+
+// Marker color for bands that are only an upper bound
+const INVALID_BAND_COLOR = "#EC4343";
+
+// Fallback color for curves outside the NC-15 to NC-70 palette (e.g., NR-80)
+const DEFAULT_CURVE_COLOR = "#94A3B8";
+
 /**
- * Calculate the NC rating that contains all user data points
- * (i.e., the lowest NC curve where all octave band values are at or above the user data)
+ * Calculate the curve rating that contains all user data points
+ * (i.e., the lowest curve where all octave band values are at or above the user data)
  */
-function calculateContainingNCRating(userData: OctaveBandData): number {
-  for (const curve of NC_CURVES) {
+function calculateContainingRating(userData: OctaveBandData, curves: NCCurve[]): number {
+  for (const curve of curves) {
     let allContained = true;
-    for (const freq of OCTAVE_BAND_FREQUENCIES) {
-      if (userData[freq] > curve.values[freq]) {
+    for (const freq of getBandFrequencies(userData)) {
+      const curveValue = curve.values[freq];
+      if (curveValue !== undefined && (userData[freq] ?? 0) > curveValue) {
         allContained = false;
         break;
       }
@@ -65,7 +105,7 @@ function calculateContainingNCRating(userData: OctaveBandData): number {
     }
   }
   // If exceeds all curves, return the highest
-  return 70;
+  return curves[curves.length - 1].rating;
 }
 
 /**
@@ -73,25 +113,31 @@ function calculateContainingNCRating(userData: OctaveBandData): number {
  */
 function calculateYAxisDomain(
   userData: OctaveBandData | undefined,
-  showCurves: number[]
+  showCurves: number[],
+  curves: NCCurve[],
+  frequencies: readonly ExtendedOctaveBandFrequency[]
 ): [number, number] {
   let minValue = Infinity;
   let maxValue = -Infinity;
 
   // Include user data in range calculation
   if (userData) {
-    for (const freq of OCTAVE_BAND_FREQUENCIES) {
-      minValue = Math.min(minValue, userData[freq]);
-      maxValue = Math.max(maxValue, userData[freq]);
+    for (const freq of frequencies) {
+      const value = userData[freq];
+      if (value === undefined) continue;
+      minValue = Math.min(minValue, value);
+      maxValue = Math.max(maxValue, value);
     }
   }
 
-  // Include displayed NC curves in range calculation
-  for (const curve of NC_CURVES) {
+  // Include displayed curves in range calculation
+  for (const curve of curves) {
     if (showCurves.includes(curve.rating)) {
-      for (const freq of OCTAVE_BAND_FREQUENCIES) {
-        minValue = Math.min(minValue, curve.values[freq]);
-        maxValue = Math.max(maxValue, curve.values[freq]);
+      for (const freq of frequencies) {
+        const value = curve.values[freq];
+        if (value === undefined) continue;
+        minValue = Math.min(minValue, value);
+        maxValue = Math.max(maxValue, value);
       }
     }
   }
@@ -110,28 +156,62 @@ export function NCCurveChart({
   userData,
   height = 400,
   showCurves = [20, 30, 40, 50, 60],
+  curveFamily = "NC",
+  rcRating,
+  estimated = false,
+  invalidBands = [],
 }: NCCurveChartProps) {
-  // Calculate which NC curve contains all the user data
-  const containingNC = userData ? calculateContainingNCRating(userData) : null;
+  const { curves, rate } = CURVE_FAMILIES[curveFamily];
+  const userLabel = estimated ? "Estimated Spectrum" : "Your Data";
+  
+  // Frequency axis: 63 Hz - 8 kHz, extended to 31.5 Hz / 16 kHz when measured
+  const frequencies = userData ? getBandFrequencies(userData) : OCTAVE_BAND_FREQUENCIES;
+  
+  // Calculate which curve contains all the user data
+  const containingRating = userData ? calculateContainingRating(userData, curves) : null;
+  
+  // Interpolated (tangency) rating per band, and the band that sets the rating
+  const tangency = userData ? rate(userData) : undefined;
   
   // Calculate auto-scaled Y-axis domain
-  const yAxisDomain = calculateYAxisDomain(userData, showCurves);
+  const yAxisDomain = calculateYAxisDomain(userData, showCurves, curves, frequencies);
+  
+  // RC reference curve (covers 31.5 Hz - 4 kHz only, drawn with NC curves)
+  const rcReference = rcRating && curveFamily === "NC" ? getRCReferenceCurve(rcRating.rating) : undefined;
+  const rcLabel = rcRating ? `${formatRCRating(rcRating)} Reference` : "";
   
   // Transform data for Recharts
-  const chartData = OCTAVE_BAND_FREQUENCIES.map((freq) => {
+  const chartData = frequencies.map((freq) => {
     const dataPoint: Record<string, number | string> = {
       frequency: formatFrequency(freq),
       freqValue: freq,
     };
 
-    // Add NC curve values
-    NC_CURVES.forEach((curve) => {
-      dataPoint[`NC-${curve.rating}`] = curve.values[freq];
+    // Add criterion curve values (curves without a 31.5 Hz / 16 kHz value leave a gap)
+    curves.forEach((curve) => {
+      const curveValue = curve.values[freq];
+      if (curveValue !== undefined) {
+        dataPoint[`${curveFamily}-${curve.rating}`] = curveValue;
+      }
     });
 
+    // Add RC reference curve if provided
+    const rcValue = rcReference?.[freq];
+    if (rcValue !== undefined) {
+      dataPoint[rcLabel] = rcValue;
+    }
+
     // Add user data if provided
-    if (userData) {
-      dataPoint["Your Data"] = userData[freq];
+    const userValue = userData?.[freq];
+    if (userValue !== undefined) {
+      dataPoint["Your Data"] = userValue;
+    }
+    const bandRating = tangency?.bandRatings[freq];
+    if (bandRating !== undefined) {
+      dataPoint.bandRating = bandRating;
+    }
+    if (invalidBands.includes(freq)) {
+      dataPoint.invalid = 1;
     }
 
     return dataPoint;
@@ -139,8 +219,8 @@ export function NCCurveChart({
 
   // Determine which curves to show
   const curvesToShow = showCurves.length > 0 
-    ? NC_CURVES.filter(c => showCurves.includes(c.rating))
-    : NC_CURVES.filter(c => [20, 30, 40, 50, 60].includes(c.rating));
+    ? curves.filter(c => showCurves.includes(c.rating))
+    : curves.filter(c => [20, 30, 40, 50, 60].includes(c.rating));
 
   return (
     <div className="w-full" style={{ height }}>
@@ -184,21 +264,29 @@ export function NCCurveChart({
               boxShadow: "0 4px 12px rgba(0,0,0,0.1)",
             }}
             labelStyle={{ fontWeight: "bold", color: "#2A2A2F" }}
+            formatter={(value, name, item) => {
+              if (name !== userLabel) return [value, name];
+              const bound = item.payload?.invalid ? " upper bound" : "";
+              if (item.payload?.bandRating !== undefined) {
+                return [`${value} dB${bound} (${curveFamily}-${item.payload.bandRating})`, name];
+              }
+              return bound ? [`${value} dB${bound}`, name] : [value, name];
+            }}
           />
           <Legend 
             wrapperStyle={{ fontSize: "12px", paddingTop: "20px" }} 
             verticalAlign="bottom"
           />
 
-          {/* NC Curves - all dashed except the containing NC which is bold/solid */}
+          {/* Criterion Curves - all dashed except the containing curve which is bold/solid */}
           {curvesToShow.map((curve) => {
-            const isContainingCurve = containingNC === curve.rating;
+            const isContainingCurve = containingRating === curve.rating;
             return (
               <Line
                 key={curve.rating}
                 type="monotone"
-                dataKey={`NC-${curve.rating}`}
-                stroke={NC_COLORS[curve.rating]}
+                dataKey={`${curveFamily}-${curve.rating}`}
+                stroke={NC_COLORS[curve.rating] ?? DEFAULT_CURVE_COLOR}
                 strokeWidth={isContainingCurve ? 3 : 2}
                 strokeDasharray={isContainingCurve ? undefined : "6 4"}
                 dot={false}
@@ -207,18 +295,55 @@ export function NCCurveChart({
             );
           })}
 
-          {/* User Data as Line with circular markers - BV Blue */}
+          {/* Controlling band - the octave band that sets the NC rating */}
+          {tangency && (
+            <ReferenceLine
+              x={formatFrequency(tangency.controllingFrequency)}
+              stroke="#4A3AFF"
+              strokeDasharray="3 3"
+              label={{
+                value: `${curveFamily}-${tangency.rating} set here`,
+                position: "top",
+                fontSize: 11,
+                fill: "#4A3AFF",
+              }}
+            />
+          )}
+
+          {/* RC Mark II reference curve */}
+          {rcRating && (
+            <Line
+              type="linear"
+              dataKey={rcLabel}
+              stroke={RC_COLOR}
+              strokeWidth={2}
+              strokeDasharray="2 3"
+              dot={false}
+            />
+          )}
+
+          {/* User Data as Line with circular markers - BV Blue (dashed, hollow markers when estimated) */}
           {userData && (
             <Line
               type="monotone"
               dataKey="Your Data"
+              name={userLabel}
               stroke="#4A3AFF"
               strokeWidth={2.5}
-              dot={{ 
-                r: 6, 
-                fill: "#4A3AFF", 
-                stroke: "#FFFFFF",
-                strokeWidth: 2
+              strokeDasharray={estimated ? "8 4" : undefined}
+              dot={(props: { cx?: number; cy?: number; index?: number; payload?: Record<string, number | string> }) => {
+                const invalid = !!props.payload?.invalid;
+                return (
+                  <circle
+                    key={props.index}
+                    cx={props.cx}
+                    cy={props.cy}
+                    r={6}
+                    fill={invalid || estimated ? "#FFFFFF" : "#4A3AFF"}
+                    stroke={invalid ? INVALID_BAND_COLOR : estimated ? "#4A3AFF" : "#FFFFFF"}
+                    strokeWidth={2}
+                  />
+                );
               }}
               activeDot={{ 
                 r: 8, 
@@ -245,11 +370,7 @@ export function NCCurveMini({
   height?: number;
 }) {
   // Find the closest standard NC curves to show
-  const showCurves = [
-    Math.max(15, ncRating - 5),
-    ncRating,
-    Math.min(70, ncRating + 5),
-  ].filter((v, i, a) => a.indexOf(v) === i); // Remove duplicates
+  const showCurves = getNeighborNCCurves(ncRating);
 
   return (
     <NCCurveChart
@@ -0,0 +1,762 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ComplianceIndicator } from "./ComplianceChecker";
+import { NumberField } from "./PathFields";
+import type { PathSource } from "./PathCalculator";
+import { EXTENDED_OCTAVE_BAND_FREQUENCIES, getBandFrequencies, type OctaveBandData } from "@/lib/conversions";
+import type { SourcePosition } from "@/lib/hvac-noise";
+import {
+  DEFAULT_ATMOSPHERIC_CONDITIONS,
+  ENCLOSURE_LINING_LABELS,
+  ENCLOSURE_PANEL_PRESETS,
+  NOISE_ORDINANCES,
+  ORDINANCE_ZONE_LABELS,
+  OUTDOOR_POSITION_LABELS,
+  calculateOutdoorLevels,
+  checkOrdinanceSchedule,
+  getJurisdictions,
+  getOrdinanceById,
+  getOrdinancesByJurisdiction,
+  type AtmosphericConditions,
+  type Barrier,
+  type EnclosureLining,
+  type NoiseOrdinance,
+  type OrdinancePeriod,
+  type OutdoorReceiver,
+  type OutdoorSource,
+} from "@/lib/outdoor";
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+const formatHours = (period: OrdinancePeriod) =>
+  period.start % 24 === period.end % 24 ? "All day" : `${period.start}:00 - ${period.end}:00`;
+
+// Outdoor unit placed on the site, using saved sound power data
+interface SourceEntry {
+  id: string;
+  dataId: string;
+  x: number;
+  y: number;
+  height: number;
+  position: SourcePosition;
+  enclosurePanel: string;   // Panel preset, or "none" for no enclosure
+  enclosureLining: EnclosureLining;
+  openArea: number;         // % of the enclosure surface
+  occupiedStart: number;    // Hour the unit starts at design speed
+  occupiedEnd: number;      // Hour the unit drops to setback speed
+  setbackSpeed: number;     // % of design fan speed outside occupied hours (0 = off, 100 = no setback)
+}
+
+// Receiver point with an optional dBA limit (0 = no limit)
+interface ReceiverEntry {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  height: number;
+  limit: number;
+}
+
+interface OutdoorCalculatorProps {
+  /** Saved data that can be used as outdoor equipment sound power */
+  sources: PathSource[];
+  /** Called with a receiver's sound pressure to save it as a new data item */
+  onSaveReceiver?: (soundPressure: OctaveBandData, name: string) => void;
+}
+
+export function OutdoorCalculator({ sources, onSaveReceiver }: OutdoorCalculatorProps) {
+  const id = useId();
+  const [sourceEntries, setSourceEntries] = useState<SourceEntry[]>([]);
+  const [receiverEntries, setReceiverEntries] = useState<ReceiverEntry[]>([
+    { id: "property-line", name: "Property Line", x: 100, y: 0, height: 5, limit: 55 },
+  ]);
+  const [conditions, setConditions] = useState<AtmosphericConditions>(DEFAULT_ATMOSPHERIC_CONDITIONS);
+  const [barriers, setBarriers] = useState<Barrier[]>([]);
+  const [ordinances, setOrdinances] = useState<NoiseOrdinance[]>(NOISE_ORDINANCES);
+  const [ordinanceId, setOrdinanceId] = useState("none");
+
+  const ordinance = getOrdinanceById(ordinanceId, ordinances);
+
+  const updateSource = (entryId: string, changes: Partial<SourceEntry>) => {
+    setSourceEntries((prev) => prev.map((entry) => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateReceiver = (entryId: string, changes: Partial<ReceiverEntry>) => {
+    setReceiverEntries((prev) => prev.map((entry) => (entry.id === entryId ? { ...entry, ...changes } : entry)));
+  };
+
+  const updateBarrier = (barrierId: string, changes: Partial<Barrier>) => {
+    setBarriers((prev) => prev.map((barrier) => (barrier.id === barrierId ? { ...barrier, ...changes } : barrier)));
+  };
+
+  // Edits apply to this session's copy of the ordinance database
+  const updatePeriod = (periodId: string, changes: Partial<OrdinancePeriod>) => {
+    setOrdinances((prev) =>
+      prev.map((o) =>
+        o.id === ordinanceId
+          ? { ...o, periods: o.periods.map((period) => (period.id === periodId ? { ...period, ...changes } : period)) }
+          : o
+      )
+    );
+  };
+
+  // Keep the zone when the new jurisdiction has it
+  const handleJurisdictionChange = (jurisdiction: string) => {
+    if (jurisdiction === "none") {
+      setOrdinanceId("none");
+      return;
+    }
+    const options = getOrdinancesByJurisdiction(jurisdiction, ordinances);
+    setOrdinanceId((options.find((o) => o.zone === ordinance?.zone) ?? options[0]).id);
+  };
+
+  // Sources with saved data, in site coordinates
+  const outdoorSources = useMemo(
+    () =>
+      sourceEntries.flatMap((entry): OutdoorSource[] => {
+        const data = sources.find((s) => s.id === entry.dataId);
+        if (!data) return [];
+        const panel = ENCLOSURE_PANEL_PRESETS[entry.enclosurePanel];
+        return [{
+          id: entry.id,
+          name: data.name,
+          soundPower: data.octaveBands,
+          x: entry.x,
+          y: entry.y,
+          height: entry.height,
+          position: entry.position,
+          enclosure: panel
+            ? { panelTL: panel.transmissionLoss, lining: entry.enclosureLining, openFraction: entry.openArea / 100 }
+            : undefined,
+          schedule: entry.setbackSpeed < 100
+            ? [
+              { name: "Occupied", start: entry.occupiedStart, end: entry.occupiedEnd, speed: 100 },
+              { name: "Setback", start: entry.occupiedEnd, end: entry.occupiedStart, speed: entry.setbackSpeed },
+            ]
+            : undefined,
+        }];
+      }),
+    [sourceEntries, sources]
+  );
+
+  // Receiver limits apply only when no ordinance is selected
+  const receivers = useMemo(
+    () =>
+      receiverEntries.map(({ limit, ...receiver }): OutdoorReceiver => ({
+        ...receiver,
+        limit: !ordinance && limit > 0 ? { dba: limit } : undefined,
+      })),
+    [receiverEntries, ordinance]
+  );
+
+  const results = useMemo(
+    () => (outdoorSources.length > 0 ? calculateOutdoorLevels(outdoorSources, receivers, conditions, barriers) : []),
+    [outdoorSources, receivers, conditions, barriers]
+  );
+
+  const periodResults = useMemo(
+    () =>
+      ordinance && outdoorSources.length > 0
+        ? checkOrdinanceSchedule(outdoorSources, receivers, ordinance, conditions, barriers)
+        : [],
+    [ordinance, outdoorSources, receivers, conditions, barriers]
+  );
+
+  const mitigated = barriers.length > 0 || outdoorSources.some((source) => source.enclosure);
+  // Every receiver sums the same sources, so they share one set of bands
+  const resultFrequencies = results.length > 0 ? getBandFrequencies(results[0].soundPressure) : [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-body-lg font-bold">Outdoor Equipment Noise</CardTitle>
+          <CardDescription className="text-body-sm text-muted-foreground">
+            Sound pressure at the property line from rooftop units, condensers and cooling towers
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Sources */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Equipment</span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={sources.length === 0}
+                onClick={() =>
+                  setSourceEntries((prev) => [
+                    ...prev,
+                    {
+                      id: crypto.randomUUID(),
+                      dataId: sources[0].id,
+                      x: 0,
+                      y: 0,
+                      height: 20,
+                      position: "surface",
+                      enclosurePanel: "none",
+                      enclosureLining: "glass-fiber-2",
+                      openArea: 20,
+                      occupiedStart: 7,
+                      occupiedEnd: 22,
+                      setbackSpeed: 100,
+                    },
+                  ])
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Unit
+              </Button>
+            </div>
+            {sources.length === 0 && (
+              <p className="text-xs text-muted-foreground">Save equipment sound power data first.</p>
+            )}
+            {sourceEntries.map((entry) => (
+              <div key={entry.id} className="space-y-2 pb-2 border-b border-border last:border-0 last:pb-0">
+                <div className="grid grid-cols-7 gap-2 items-end">
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor={`${id}-${entry.id}-data`} className="text-[10px] text-muted-foreground">Sound Power (LW)</Label>
+                    <Select value={entry.dataId} onValueChange={(v) => updateSource(entry.id, { dataId: v })}>
+                      <SelectTrigger id={`${id}-${entry.id}-data`} className="h-7 text-xs">
+                        <SelectValue placeholder="Select saved data..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sources.map((s) => (
+                          <SelectItem key={s.id} value={s.id}>
+                            {s.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <NumberField id={`${id}-${entry.id}-x`} label="X (ft)" value={entry.x} onChange={(x) => updateSource(entry.id, { x })} />
+                  <NumberField id={`${id}-${entry.id}-y`} label="Y (ft)" value={entry.y} onChange={(y) => updateSource(entry.id, { y })} />
+                  <NumberField
+                    id={`${id}-${entry.id}-height`}
+                    label="Height (ft)"
+                    value={entry.height}
+                    onChange={(height) => updateSource(entry.id, { height })}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor={`${id}-${entry.id}-position`} className="text-[10px] text-muted-foreground">Surfaces</Label>
+                    <Select value={entry.position} onValueChange={(v) => updateSource(entry.id, { position: v as SourcePosition })}>
+                      <SelectTrigger id={`${id}-${entry.id}-position`} className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(OUTDOOR_POSITION_LABELS) as SourcePosition[]).map((position) => (
+                          <SelectItem key={position} value={position}>
+                            {OUTDOOR_POSITION_LABELS[position]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => setSourceEntries((prev) => prev.filter((e) => e.id !== entry.id))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-7 gap-2 items-end">
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor={`${id}-${entry.id}-panel`} className="text-[10px] text-muted-foreground">Enclosure</Label>
+                    <Select value={entry.enclosurePanel} onValueChange={(v) => updateSource(entry.id, { enclosurePanel: v })}>
+                      <SelectTrigger id={`${id}-${entry.id}-panel`} className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No enclosure</SelectItem>
+                        {Object.entries(ENCLOSURE_PANEL_PRESETS).map(([key, panel]) => (
+                          <SelectItem key={key} value={key}>
+                            {panel.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {entry.enclosurePanel !== "none" && (
+                    <>
+                      <div className="space-y-1 col-span-2">
+                        <Label htmlFor={`${id}-${entry.id}-lining`} className="text-[10px] text-muted-foreground">Lining</Label>
+                        <Select
+                          value={entry.enclosureLining}
+                          onValueChange={(v) => updateSource(entry.id, { enclosureLining: v as EnclosureLining })}
+                        >
+                          <SelectTrigger id={`${id}-${entry.id}-lining`} className="h-7 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ENCLOSURE_LINING_LABELS) as EnclosureLining[]).map((lining) => (
+                              <SelectItem key={lining} value={lining}>
+                                {ENCLOSURE_LINING_LABELS[lining]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <NumberField
+                        id={`${id}-${entry.id}-open`}
+                        label="Open Area (%)"
+                        value={entry.openArea}
+                        onChange={(openArea) => updateSource(entry.id, { openArea: Math.min(100, openArea) })}
+                      />
+                    </>
+                  )}
+                </div>
+                <div className="grid grid-cols-7 gap-2 items-end">
+                  <NumberField
+                    id={`${id}-${entry.id}-occupied-start`}
+                    label="Occupied From (h)"
+                    value={entry.occupiedStart}
+                    onChange={(occupiedStart) => updateSource(entry.id, { occupiedStart })}
+                  />
+                  <NumberField
+                    id={`${id}-${entry.id}-occupied-end`}
+                    label="Occupied To (h)"
+                    value={entry.occupiedEnd}
+                    onChange={(occupiedEnd) => updateSource(entry.id, { occupiedEnd })}
+                  />
+                  <div className="col-span-2">
+                    <NumberField
+                      id={`${id}-${entry.id}-setback`}
+                      label="Setback Speed (%, 0 = off)"
+                      value={entry.setbackSpeed}
+                      onChange={(setbackSpeed) => updateSource(entry.id, { setbackSpeed: Math.min(100, setbackSpeed) })}
+                      step="5"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Receivers */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Receivers</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  setReceiverEntries((prev) => [
+                    ...prev,
+                    { id: crypto.randomUUID(), name: `Receiver ${prev.length + 1}`, x: 100, y: 0, height: 5, limit: 55 },
+                  ])
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Receiver
+              </Button>
+            </div>
+            {receiverEntries.map((entry) => (
+              <div key={entry.id} className="grid grid-cols-7 gap-2 items-end">
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor={`${id}-${entry.id}-name`} className="text-[10px] text-muted-foreground">Name</Label>
+                  <Input
+                    id={`${id}-${entry.id}-name`}
+                    value={entry.name}
+                    onChange={(e) => updateReceiver(entry.id, { name: e.target.value })}
+                    className="h-7 text-xs"
+                  />
+                </div>
+                <NumberField id={`${id}-${entry.id}-x`} label="X (ft)" value={entry.x} onChange={(x) => updateReceiver(entry.id, { x })} />
+                <NumberField id={`${id}-${entry.id}-y`} label="Y (ft)" value={entry.y} onChange={(y) => updateReceiver(entry.id, { y })} />
+                <NumberField
+                  id={`${id}-${entry.id}-height`}
+                  label="Height (ft)"
+                  value={entry.height}
+                  onChange={(height) => updateReceiver(entry.id, { height })}
+                />
+                {ordinance ? (
+                  <div className="space-y-1">
+                    <span className="text-[10px] text-muted-foreground">Limit</span>
+                    <div className="h-7 flex items-center text-xs text-muted-foreground">Ordinance</div>
+                  </div>
+                ) : (
+                  <NumberField
+                    id={`${id}-${entry.id}-limit`}
+                    label="Limit (dBA)"
+                    value={entry.limit}
+                    onChange={(limit) => updateReceiver(entry.id, { limit })}
+                  />
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                  disabled={receiverEntries.length === 1}
+                  onClick={() => setReceiverEntries((prev) => prev.filter((e) => e.id !== entry.id))}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Ordinance */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Noise Ordinance</span>
+              {ordinance && ordinance !== getOrdinanceById(ordinance.id) && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    setOrdinances((prev) => prev.map((o) => (o.id === ordinance.id ? getOrdinanceById(o.id) ?? o : o)))
+                  }
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Reset Limits
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`${id}-jurisdiction`} className="text-[10px] text-muted-foreground">Jurisdiction</Label>
+                <Select value={ordinance?.jurisdiction ?? "none"} onValueChange={handleJurisdictionChange}>
+                  <SelectTrigger id={`${id}-jurisdiction`} className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (receiver limits)</SelectItem>
+                    {getJurisdictions(ordinances).map((jurisdiction) => (
+                      <SelectItem key={jurisdiction} value={jurisdiction}>
+                        {jurisdiction}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ordinance && (
+                <div className="space-y-1">
+                  <Label htmlFor={`${id}-zone`} className="text-[10px] text-muted-foreground">Receiving Zone</Label>
+                  <Select value={ordinance.id} onValueChange={setOrdinanceId}>
+                    <SelectTrigger id={`${id}-zone`} className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getOrdinancesByJurisdiction(ordinance.jurisdiction, ordinances).map((o) => (
+                        <SelectItem key={o.id} value={o.id}>
+                          {ORDINANCE_ZONE_LABELS[o.zone]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {ordinance && (
+              <>
+                <p className="text-[10px] text-muted-foreground">{ordinance.description}</p>
+                {ordinance.periods.map((period) => (
+                  <div key={period.id} className="grid grid-cols-7 gap-2 items-end">
+                    <div className="space-y-1 col-span-2">
+                      <span className="text-[10px] text-muted-foreground">Period</span>
+                      <div className="h-7 flex items-center text-xs">{period.name}</div>
+                    </div>
+                    <NumberField
+                      id={`${id}-${period.id}-start`}
+                      label="From (h)"
+                      value={period.start}
+                      onChange={(start) => updatePeriod(period.id, { start })}
+                    />
+                    <NumberField
+                      id={`${id}-${period.id}-end`}
+                      label="To (h)"
+                      value={period.end}
+                      onChange={(end) => updatePeriod(period.id, { end })}
+                    />
+                    <NumberField
+                      id={`${id}-${period.id}-limit`}
+                      label="Limit (dBA)"
+                      value={period.limit.dba ?? 0}
+                      onChange={(dba) => updatePeriod(period.id, { limit: { ...period.limit, dba: dba > 0 ? dba : undefined } })}
+                    />
+                    {period.limit.octaveBands && (
+                      <div className="space-y-1 col-span-2">
+                        <span className="text-[10px] text-muted-foreground">Octave Band Limits (dB)</span>
+                        <div className="min-h-7 flex items-center text-xs">
+                          {EXTENDED_OCTAVE_BAND_FREQUENCIES.filter((freq) => period.limit.octaveBands?.[freq] !== undefined)
+                            .map((freq) => `${formatFrequency(freq)} Hz: ${period.limit.octaveBands?.[freq]}`)
+                            .join(", ")}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          {/* Barriers */}
+          <div className="p-3 rounded-md border border-border space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Screen Walls</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  setBarriers((prev) => [
+                    ...prev,
+                    {
+                      id: crypto.randomUUID(),
+                      name: `Wall ${prev.length + 1}`,
+                      start: { x: 20, y: 0 },
+                      end: { x: 20, y: 40 },
+                      height: 10,
+                    },
+                  ])
+                }
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Wall
+              </Button>
+            </div>
+            {barriers.map((barrier) => (
+              <div key={barrier.id} className="grid grid-cols-7 gap-2 items-end">
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor={`${id}-${barrier.id}-name`} className="text-[10px] text-muted-foreground">Name</Label>
+                  <Input
+                    id={`${id}-${barrier.id}-name`}
+                    value={barrier.name}
+                    onChange={(e) => updateBarrier(barrier.id, { name: e.target.value })}
+                    className="h-7 text-xs"
+                  />
+                </div>
+                <NumberField
+                  id={`${id}-${barrier.id}-x1`}
+                  label="Start X (ft)"
+                  value={barrier.start.x}
+                  onChange={(x) => updateBarrier(barrier.id, { start: { ...barrier.start, x } })}
+                />
+                <NumberField
+                  id={`${id}-${barrier.id}-y1`}
+                  label="Start Y (ft)"
+                  value={barrier.start.y}
+                  onChange={(y) => updateBarrier(barrier.id, { start: { ...barrier.start, y } })}
+                />
+                <NumberField
+                  id={`${id}-${barrier.id}-x2`}
+                  label="End X (ft)"
+                  value={barrier.end.x}
+                  onChange={(x) => updateBarrier(barrier.id, { end: { ...barrier.end, x } })}
+                />
+                <NumberField
+                  id={`${id}-${barrier.id}-y2`}
+                  label="End Y (ft)"
+                  value={barrier.end.y}
+                  onChange={(y) => updateBarrier(barrier.id, { end: { ...barrier.end, y } })}
+                />
+                <div className="flex items-end gap-1">
+                  <NumberField
+                    id={`${id}-${barrier.id}-height`}
+                    label="Height (ft)"
+                    value={barrier.height}
+                    onChange={(height) => updateBarrier(barrier.id, { height })}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                    onClick={() => setBarriers((prev) => prev.filter((b) => b.id !== barrier.id))}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Atmosphere */}
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              id={`${id}-temperature`}
+              label="Air Temperature (°F)"
+              value={conditions.temperature}
+              onChange={(temperature) => setConditions((prev) => ({ ...prev, temperature }))}
+            />
+            <NumberField
+              id={`${id}-humidity`}
+              label="Relative Humidity (%)"
+              value={conditions.relativeHumidity}
+              onChange={(relativeHumidity) => setConditions((prev) => ({ ...prev, relativeHumidity }))}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Receiver Levels</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Receiver</th>
+                    {resultFrequencies.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                    {mitigated && <th className="py-1 px-1 font-medium text-right">Unmitigated</th>}
+                    <th className="py-1 px-1 font-medium text-right">dBA</th>
+                    <th className="py-1 px-1 font-medium text-right">Limit</th>
+                    <th className="py-1 pl-2 font-medium text-right">Status</th>
+                    {onSaveReceiver && <th className="py-1 pl-2" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr key={result.receiver.id} className="border-b border-border">
+                      <td className="py-1 pr-2">
+                        <div>{result.receiver.name}</div>
+                        <div className="text-[10px] text-muted-foreground">
+                          {result.paths
+                            .map((path) => {
+                              const barrier = barriers.find((b) => b.id === path.barrierId);
+                              return `${path.distance} ft${barrier ? ` behind ${barrier.name}` : ""}`;
+                            })
+                            .join(", ")}
+                        </div>
+                      </td>
+                      {resultFrequencies.map((freq) => (
+                        <td key={freq} className="py-1 px-1 text-right">{result.soundPressure[freq]}</td>
+                      ))}
+                      {mitigated && <td className="py-1 px-1 text-right text-muted-foreground">{result.unmitigatedDba}</td>}
+                      <td className="py-1 px-1 text-right font-medium">{result.dba}</td>
+                      <td className="py-1 px-1 text-right">{result.compliance?.limit ?? "-"}</td>
+                      <td className="py-1 pl-2 text-right">
+                        {result.compliance && (
+                          <span title={result.compliance.message}>
+                            <ComplianceIndicator status={result.compliance.status} />
+                          </span>
+                        )}
+                      </td>
+                      {onSaveReceiver && (
+                        <td className="py-1 pl-2 text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 w-7 p-0"
+                            onClick={() => onSaveReceiver(result.soundPressure, `${result.receiver.name} (Outdoor)`)}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {results.map((result) =>
+              result.compliance && !result.compliance.compliant ? (
+                <p key={result.receiver.id} className="text-xs text-amber-700">
+                  {result.receiver.name}: {result.compliance.message}
+                </p>
+              ) : null
+            )}
+
+            <p className="text-micro text-muted-foreground">
+              Spherical divergence and ISO 9613-1 atmospheric absorption, with +3 dB per reflecting surface next to
+              each unit. Screen walls use the ISO 9613-2 Fresnel number method (up to 20 dB) when they cross the
+              sight line on plan. Ground effect is not included.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {ordinance && periodResults.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Ordinance Compliance by Period</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Period</th>
+                    <th className="text-left py-1 px-1 font-medium">Receiver</th>
+                    <th className="py-1 px-1 font-medium text-right">dBA</th>
+                    <th className="py-1 px-1 font-medium text-right">Limit</th>
+                    <th className="py-1 px-1 font-medium text-right">Margin</th>
+                    <th className="py-1 pl-2 font-medium text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {periodResults.map(({ period, speeds, receivers: periodReceivers }) =>
+                    periodReceivers.map((result, index) => (
+                      <tr key={`${period.id}-${result.receiver.id}`} className="border-b border-border">
+                        {index === 0 && (
+                          <td rowSpan={periodReceivers.length} className="py-1 pr-2 align-top">
+                            <div>{period.name}</div>
+                            <div className="text-[10px] text-muted-foreground">{formatHours(period)}</div>
+                            <div className="text-[10px] text-muted-foreground">
+                              {outdoorSources
+                                .map((source) => `${source.name} ${speeds[source.id] > 0 ? `${speeds[source.id]}%` : "off"}`)
+                                .join(", ")}
+                            </div>
+                          </td>
+                        )}
+                        <td className="py-1 px-1">{result.receiver.name}</td>
+                        <td className="py-1 px-1 text-right font-medium">{result.dba}</td>
+                        <td className="py-1 px-1 text-right">
+                          {result.compliance ? result.compliance.limit ?? "Octave bands" : "-"}
+                        </td>
+                        <td
+                          className={`py-1 px-1 text-right ${
+                            result.compliance && !result.compliance.compliant ? "text-red-600" : "text-[#16DA7C]"
+                          }`}
+                        >
+                          {result.compliance ? `${result.compliance.margin > 0 ? "+" : ""}${result.compliance.margin}` : "-"}
+                        </td>
+                        <td className="py-1 pl-2 text-right">
+                          {result.compliance && (
+                            <span title={result.compliance.message}>
+                              <ComplianceIndicator status={result.compliance.status} />
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {periodResults.map(({ period, receivers: periodReceivers }) =>
+              periodReceivers.map((result) =>
+                result.compliance && !result.compliance.compliant ? (
+                  <p key={`${period.id}-${result.receiver.id}`} className="text-xs text-amber-700">
+                    {period.name}, {result.receiver.name}: {result.compliance.message}
+                  </p>
+                ) : null
+              )
+            )}
+
+            <p className="text-micro text-muted-foreground">
+              Each unit is taken at the highest speed it runs during the period; setback speeds are scaled by the fan
+              law (50 log of the speed ratio). Ordinances are amended often and many add tonal or ambient-based
+              penalties, so confirm the limits against the adopted code.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
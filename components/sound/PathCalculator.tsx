@@ -0,0 +1,530 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NCCurveChart } from "./NCCurveChart";
+import { DuctFields, NumberField, RoomEffectFields } from "./PathFields";
+import { SilencerSelector } from "./SilencerSelector";
+import {
+  formatSoundValue,
+  getNeighborNCCurves,
+  OCTAVE_BAND_FREQUENCIES,
+  type OctaveBandData,
+} from "@/lib/conversions";
+import {
+  DEFAULT_SILENCER_CATALOG,
+  PATH_ELEMENT_LABELS,
+  REGENERATED_NOISE_FITTING_LABELS,
+  calculatePath,
+  describePathElement,
+  type DuctSection,
+  type PathElement,
+  type PathElementType,
+  type RegeneratedNoiseFitting,
+  type RegeneratedNoiseFittingType,
+  type Silencer,
+} from "@/lib/hvac-noise";
+
+// Path element with a stable key for editing
+export interface PathElementEntry {
+  id: string;
+  element: PathElement;
+}
+
+// Sound power source that can start a path
+export interface PathSource {
+  id: string;
+  name: string;
+  octaveBands: OctaveBandData;
+}
+
+const DEFAULT_DUCT: DuctSection = { shape: "rectangular", width: 12, height: 12 };
+
+/**
+ * New regenerated noise fitting with typical parameters
+ */
+function createFitting(type: RegeneratedNoiseFittingType): RegeneratedNoiseFitting {
+  switch (type) {
+    case "damper":
+      return { type, duct: DEFAULT_DUCT, airflow: 1000, pressureDrop: 0.1 };
+    case "transition":
+      return { type, duct: DEFAULT_DUCT, airflow: 1000, pressureDrop: 0.05 };
+    case "elbow":
+      return { type, duct: DEFAULT_DUCT, airflow: 1000, radius: 0 };
+    case "branch-takeoff":
+      return {
+        type,
+        main: { shape: "rectangular", width: 24, height: 12 },
+        branch: { shape: "round", width: 8, height: 8 },
+        mainAirflow: 2000,
+        branchAirflow: 300,
+        radius: 0,
+        upstreamTurbulence: false,
+      };
+  }
+}
+
+/**
+ * New path element with typical parameters
+ */
+function createPathElement(type: PathElementType): PathElement {
+  switch (type) {
+    case "straight-duct":
+      return { type, duct: DEFAULT_DUCT, length: 20 };
+    case "lined-duct":
+      return { type, duct: DEFAULT_DUCT, length: 10, lining: 1 };
+    case "elbow":
+      return { type, duct: DEFAULT_DUCT, lined: false, turningVanes: true };
+    case "branch":
+      return { type, branchAirflow: 200, totalAirflow: 1000 };
+    case "end-reflection":
+      return { type, duct: { shape: "round", width: 8, height: 8 }, termination: "flush" };
+    case "plenum":
+      return { type, plenum: { length: 4, width: 3, height: 2, outletArea: 1.5, offset: 0, lining: 1 } };
+    case "regenerated-noise":
+      return { type, fitting: createFitting("damper") };
+    case "silencer":
+      return { type, silencer: DEFAULT_SILENCER_CATALOG[1] };
+    case "room-effect":
+      return {
+        type,
+        room: {
+          method: "schultz",
+          room: { length: 20, width: 15, height: 9 },
+          distance: 8,
+          sourceCount: 1,
+          position: "surface",
+        },
+      };
+  }
+}
+
+const formatFrequency = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+
+interface PathCalculatorProps {
+  /** Saved sound power data that can start the path */
+  sources: PathSource[];
+  sourceId: string;
+  onSourceChange: (sourceId: string) => void;
+  /** Path elements in order from the fan */
+  elements: PathElementEntry[];
+  onElementsChange: (elements: PathElementEntry[]) => void;
+  /** Called with the receiver spectrum to save it as a new data item */
+  onSaveReceiver?: (receiver: OctaveBandData) => void;
+}
+
+export function PathCalculator({
+  sources,
+  sourceId,
+  onSourceChange,
+  elements,
+  onElementsChange,
+  onSaveReceiver,
+}: PathCalculatorProps) {
+  const [newType, setNewType] = useState<PathElementType>("straight-duct");
+
+  const source = sources.find((s) => s.id === sourceId);
+
+  const pathElements = useMemo(() => elements.map((entry) => entry.element), [elements]);
+
+  const pathResult = useMemo(() => {
+    if (!source) return undefined;
+    return calculatePath(source.octaveBands, pathElements);
+  }, [source, pathElements]);
+
+  const updateElement = (id: string, element: PathElement) => {
+    onElementsChange(elements.map((entry) => (entry.id === id ? { id, element } : entry)));
+  };
+
+  const moveElement = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= elements.length) return;
+    const next = [...elements];
+    [next[index], next[target]] = [next[target], next[index]];
+    onElementsChange(next);
+  };
+
+  const addElement = () => {
+    onElementsChange([...elements, { id: crypto.randomUUID(), element: createPathElement(newType) }]);
+  };
+
+  const insertSilencer = (silencer: Silencer, position: number) => {
+    const next = [...elements];
+    next.splice(position, 0, { id: crypto.randomUUID(), element: { type: "silencer", silencer } });
+    onElementsChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-body-lg font-bold">Duct Path Calculation</CardTitle>
+          <CardDescription className="text-body-sm text-muted-foreground">
+            Follow fan sound power through each duct element to the room (ASHRAE Chapter 48)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Source */}
+          <div className="space-y-2">
+            <Label htmlFor="path-source">Fan Sound Power (LW)</Label>
+            <Select value={sourceId} onValueChange={onSourceChange}>
+              <SelectTrigger id="path-source" className="w-full">
+                <SelectValue placeholder={sources.length ? "Select saved sound power data..." : "Save sound power data first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Element chain */}
+          <div className="space-y-2">
+            {elements.map((entry, index) => (
+              <div key={entry.id} className="p-3 rounded-md border border-border space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    {index + 1}. {PATH_ELEMENT_LABELS[entry.element.type]}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => moveElement(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="w-3 h-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => moveElement(index, 1)} disabled={index === elements.length - 1}>
+                      <ArrowDown className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      onClick={() => onElementsChange(elements.filter((e) => e.id !== entry.id))}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+                <PathElementEditor element={entry.element} onChange={(element) => updateElement(entry.id, element)} />
+              </div>
+            ))}
+          </div>
+
+          {/* Add element */}
+          <div className="flex gap-2">
+            <Select value={newType} onValueChange={(v) => setNewType(v as PathElementType)}>
+              <SelectTrigger className="flex-1 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PATH_ELEMENT_LABELS) as PathElementType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {PATH_ELEMENT_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={addElement} size="sm" variant="outline">
+              <Plus className="w-4 h-4 mr-1" />
+              Add Element
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {source && pathResult && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Path Results</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {pathResult.warnings.map((warning) => (
+              <p key={warning} className="text-xs text-amber-700">{warning}</p>
+            ))}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border text-muted-foreground">
+                    <th className="text-left py-1 pr-2 font-medium">Element</th>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <th key={freq} className="py-1 px-1 font-medium text-right">{formatFrequency(freq)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-border">
+                    <td className="py-1 pr-2 font-medium">Source LW</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right">{source.octaveBands[freq]}</td>
+                    ))}
+                  </tr>
+                  {pathResult.steps.map((step, index) => (
+                    <tr key={index} className="border-b border-border">
+                      <td className="py-1 pr-2">
+                        <div>{PATH_ELEMENT_LABELS[step.element.type]}</div>
+                        <div className="text-[10px] text-muted-foreground">{describePathElement(step.element)}</div>
+                      </td>
+                      {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                        <td key={freq} className="py-1 px-1 text-right text-muted-foreground">−{step.attenuation[freq]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-1 pr-2 font-medium">{pathResult.isSoundPressure ? "Room LP" : "Receiver LW"}</td>
+                    {OCTAVE_BAND_FREQUENCIES.map((freq) => (
+                      <td key={freq} className="py-1 px-1 text-right font-medium">{pathResult.receiver[freq]}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="text-detail">
+                <span className="text-muted-foreground">Receiver: </span>
+                <span className="font-medium">{formatSoundValue(pathResult.nc, "nc")}</span>
+                <span className="text-muted-foreground"> set by the {formatFrequency(pathResult.controllingFrequency)} Hz band</span>
+              </div>
+              {onSaveReceiver && pathResult.isSoundPressure && (
+                <Button onClick={() => onSaveReceiver(pathResult.receiver)} size="sm" variant="outline">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Save Receiver
+                </Button>
+              )}
+            </div>
+
+            <NCCurveChart
+              userData={pathResult.receiver}
+              height={350}
+              showCurves={getNeighborNCCurves(pathResult.nc)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Silencer selection */}
+      {source && pathResult?.isSoundPressure && (
+        <SilencerSelector
+          source={source.octaveBands}
+          elements={pathElements}
+          onInsert={insertSilencer}
+        />
+      )}
+    </div>
+  );
+}
+
+interface PathElementEditorProps {
+  element: PathElement;
+  onChange: (element: PathElement) => void;
+}
+
+function PathElementEditor({ element, onChange }: PathElementEditorProps) {
+  const id = useId();
+
+  switch (element.type) {
+    case "straight-duct":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          <DuctFields id={id} duct={element.duct} onChange={(duct) => onChange({ ...element, duct })} />
+          <NumberField id={`${id}-length`} label="Length (ft)" value={element.length} onChange={(length) => onChange({ ...element, length })} />
+        </div>
+      );
+    case "lined-duct":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          <DuctFields id={id} duct={element.duct} onChange={(duct) => onChange({ ...element, duct })} />
+          <NumberField id={`${id}-length`} label="Length (ft)" value={element.length} onChange={(length) => onChange({ ...element, length })} />
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-lining`} className="text-[10px] text-muted-foreground">Lining</Label>
+            <Select value={element.lining.toString()} onValueChange={(v) => onChange({ ...element, lining: v === "2" ? 2 : 1 })}>
+              <SelectTrigger id={`${id}-lining`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 in</SelectItem>
+                <SelectItem value="2">2 in</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+    case "elbow":
+      return (
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <DuctFields id={id} duct={element.duct} onChange={(duct) => onChange({ ...element, duct })} />
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={element.lined} onChange={(e) => onChange({ ...element, lined: e.target.checked })} />
+            Lined
+          </label>
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={element.turningVanes} onChange={(e) => onChange({ ...element, turningVanes: e.target.checked })} />
+            Turning vanes
+          </label>
+        </div>
+      );
+    case "branch":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField id={`${id}-branch`} label="Branch Airflow (CFM)" value={element.branchAirflow} onChange={(branchAirflow) => onChange({ ...element, branchAirflow })} />
+          <NumberField id={`${id}-total`} label="Total Airflow (CFM)" value={element.totalAirflow} onChange={(totalAirflow) => onChange({ ...element, totalAirflow })} />
+        </div>
+      );
+    case "end-reflection":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          <DuctFields id={id} duct={element.duct} onChange={(duct) => onChange({ ...element, duct })} />
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-termination`} className="text-[10px] text-muted-foreground">Termination</Label>
+            <Select value={element.termination} onValueChange={(v) => onChange({ ...element, termination: v as "flush" | "free" })}>
+              <SelectTrigger id={`${id}-termination`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flush">Flush with ceiling</SelectItem>
+                <SelectItem value="free">Free space</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+    case "plenum": {
+      const { plenum } = element;
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField id={`${id}-length`} label="Length (ft)" value={plenum.length} onChange={(length) => onChange({ ...element, plenum: { ...plenum, length } })} step="0.5" />
+          <NumberField id={`${id}-width`} label="Width (ft)" value={plenum.width} onChange={(width) => onChange({ ...element, plenum: { ...plenum, width } })} step="0.5" />
+          <NumberField id={`${id}-height`} label="Height (ft)" value={plenum.height} onChange={(height) => onChange({ ...element, plenum: { ...plenum, height } })} step="0.5" />
+          <NumberField id={`${id}-outlet`} label="Outlet Area (ft²)" value={plenum.outletArea} onChange={(outletArea) => onChange({ ...element, plenum: { ...plenum, outletArea } })} step="0.1" />
+          <NumberField id={`${id}-offset`} label="Outlet Offset (ft)" value={plenum.offset} onChange={(offset) => onChange({ ...element, plenum: { ...plenum, offset } })} step="0.5" />
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-lining`} className="text-[10px] text-muted-foreground">Lining</Label>
+            <Select
+              value={plenum.lining ? plenum.lining.toString() : "none"}
+              onValueChange={(v) => onChange({ ...element, plenum: { ...plenum, lining: v === "none" ? undefined : v === "2" ? 2 : 1 } })}
+            >
+              <SelectTrigger id={`${id}-lining`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Unlined</SelectItem>
+                <SelectItem value="1">1 in</SelectItem>
+                <SelectItem value="2">2 in</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+    }
+    case "regenerated-noise":
+      return <FittingEditor id={id} fitting={element.fitting} onChange={(fitting) => onChange({ ...element, fitting })} />;
+    case "silencer": {
+      // Loaded catalog entries stay selectable alongside the generic ones
+      const options = DEFAULT_SILENCER_CATALOG.some((s) => s.id === element.silencer.id)
+        ? DEFAULT_SILENCER_CATALOG
+        : [element.silencer, ...DEFAULT_SILENCER_CATALOG];
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-silencer`} className="text-[10px] text-muted-foreground">Silencer</Label>
+          <Select
+            value={element.silencer.id}
+            onValueChange={(v) => onChange({ ...element, silencer: options.find((s) => s.id === v) ?? element.silencer })}
+          >
+            <SelectTrigger id={`${id}-silencer`} className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.manufacturer ? `${s.manufacturer} ` : ""}{s.model} @ {s.faceVelocity} fpm
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    }
+    case "room-effect":
+      return <RoomEffectFields id={id} input={element.room} onChange={(room) => onChange({ ...element, room })} />;
+  }
+}
+
+interface FittingEditorProps {
+  id: string;
+  fitting: RegeneratedNoiseFitting;
+  onChange: (fitting: RegeneratedNoiseFitting) => void;
+}
+
+function FittingEditor({ id, fitting, onChange }: FittingEditorProps) {
+  const typeSelect = (
+    <div className="space-y-1 col-span-4">
+      <Label htmlFor={`${id}-fitting`} className="text-[10px] text-muted-foreground">Fitting</Label>
+      <Select value={fitting.type} onValueChange={(v) => onChange(createFitting(v as RegeneratedNoiseFittingType))}>
+        <SelectTrigger id={`${id}-fitting`} className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(REGENERATED_NOISE_FITTING_LABELS) as RegeneratedNoiseFittingType[]).map((type) => (
+            <SelectItem key={type} value={type}>
+              {REGENERATED_NOISE_FITTING_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  switch (fitting.type) {
+    case "damper":
+    case "transition":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          {typeSelect}
+          <DuctFields id={id} duct={fitting.duct} onChange={(duct) => onChange({ ...fitting, duct })} />
+          <NumberField id={`${id}-airflow`} label="Airflow (CFM)" value={fitting.airflow} onChange={(airflow) => onChange({ ...fitting, airflow })} />
+          <NumberField
+            id={`${id}-pressure`}
+            label="Pressure Drop (in. w.g.)"
+            value={fitting.pressureDrop}
+            onChange={(pressureDrop) => onChange({ ...fitting, pressureDrop })}
+            step="0.01"
+          />
+        </div>
+      );
+    case "elbow":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          {typeSelect}
+          <DuctFields id={id} duct={fitting.duct} onChange={(duct) => onChange({ ...fitting, duct })} />
+          <NumberField id={`${id}-airflow`} label="Airflow (CFM)" value={fitting.airflow} onChange={(airflow) => onChange({ ...fitting, airflow })} />
+          <NumberField id={`${id}-radius`} label="Radius (in)" value={fitting.radius} onChange={(radius) => onChange({ ...fitting, radius })} />
+        </div>
+      );
+    case "branch-takeoff":
+      return (
+        <div className="grid grid-cols-4 gap-2 items-end">
+          {typeSelect}
+          <DuctFields id={`${id}-main`} duct={fitting.main} onChange={(main) => onChange({ ...fitting, main })} />
+          <NumberField id={`${id}-main-airflow`} label="Main Airflow (CFM)" value={fitting.mainAirflow} onChange={(mainAirflow) => onChange({ ...fitting, mainAirflow })} />
+          <DuctFields id={`${id}-branch`} duct={fitting.branch} onChange={(branch) => onChange({ ...fitting, branch })} />
+          <NumberField id={`${id}-branch-airflow`} label="Branch Airflow (CFM)" value={fitting.branchAirflow} onChange={(branchAirflow) => onChange({ ...fitting, branchAirflow })} />
+          <NumberField id={`${id}-radius`} label="Radius (in)" value={fitting.radius} onChange={(radius) => onChange({ ...fitting, radius })} />
+          <label className="flex items-center gap-1 text-xs col-span-3">
+            <input
+              type="checkbox"
+              checked={fitting.upstreamTurbulence}
+              onChange={(e) => onChange({ ...fitting, upstreamTurbulence: e.target.checked })}
+            />
+            Fitting within 5 diameters upstream
+          </label>
+        </div>
+      );
+  }
+}
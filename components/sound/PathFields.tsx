@@ -0,0 +1,117 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ROOM_EFFECT_METHOD_LABELS,
+  type DuctSection,
+  type RoomEffectInput,
+  type RoomEffectMethod,
+} from "@/lib/hvac-noise";
+
+// Compact input fields shared by the duct path and breakout editors
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: string;
+}
+
+export function NumberField({ id, label, value, onChange, step = "1" }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-[10px] text-muted-foreground">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="h-7 text-xs"
+      />
+    </div>
+  );
+}
+
+interface DuctFieldsProps {
+  id: string;
+  duct: DuctSection;
+  onChange: (duct: DuctSection) => void;
+}
+
+export function DuctFields({ id, duct, onChange }: DuctFieldsProps) {
+  return (
+    <>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-shape`} className="text-[10px] text-muted-foreground">Shape</Label>
+        <Select value={duct.shape} onValueChange={(v) => onChange({ ...duct, shape: v as DuctSection["shape"] })}>
+          <SelectTrigger id={`${id}-shape`} className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rectangular">Rectangular</SelectItem>
+            <SelectItem value="round">Round</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <NumberField
+        id={`${id}-width`}
+        label={duct.shape === "round" ? "Diameter (in)" : "Width (in)"}
+        value={duct.width}
+        onChange={(width) => onChange({ ...duct, width })}
+      />
+      {duct.shape === "rectangular" && (
+        <NumberField id={`${id}-height`} label="Height (in)" value={duct.height} onChange={(height) => onChange({ ...duct, height })} />
+      )}
+    </>
+  );
+}
+
+interface RoomEffectFieldsProps {
+  id: string;
+  input: RoomEffectInput;
+  onChange: (input: RoomEffectInput) => void;
+  /** Hide the source count when the caller sets it */
+  hideSourceCount?: boolean;
+}
+
+export function RoomEffectFields({ id, input, onChange, hideSourceCount }: RoomEffectFieldsProps) {
+  const { room } = input;
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div className="space-y-1 col-span-3">
+        <Label htmlFor={`${id}-method`} className="text-[10px] text-muted-foreground">Method</Label>
+        <Select value={input.method} onValueChange={(v) => onChange({ ...input, method: v as RoomEffectMethod })}>
+          <SelectTrigger id={`${id}-method`} className="h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ROOM_EFFECT_METHOD_LABELS) as RoomEffectMethod[]).map((m) => (
+              <SelectItem key={m} value={m}>
+                {ROOM_EFFECT_METHOD_LABELS[m]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <NumberField id={`${id}-length`} label="Room Length (ft)" value={room.length} onChange={(length) => onChange({ ...input, room: { ...room, length } })} />
+      <NumberField id={`${id}-width`} label="Room Width (ft)" value={room.width} onChange={(width) => onChange({ ...input, room: { ...room, width } })} />
+      <NumberField id={`${id}-height`} label="Ceiling Height (ft)" value={room.height} onChange={(height) => onChange({ ...input, room: { ...room, height } })} />
+      {input.method !== "thompson" && (
+        <NumberField id={`${id}-distance`} label="Distance (ft)" value={input.distance} onChange={(distance) => onChange({ ...input, distance })} />
+      )}
+      {!hideSourceCount && (
+        <NumberField
+          id={`${id}-sources`}
+          label="Sources"
+          value={input.sourceCount}
+          onChange={(sourceCount) => onChange({ ...input, sourceCount: Math.max(1, Math.round(sourceCount)) })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  convertSoundMeasurement,
+  formatSoundValue,
+  getBandFrequencies,
+  type OctaveBandData,
+} from "@/lib/conversions";
+import {
+  ROOM_EFFECT_METHOD_LABELS,
+  soundPowerToPressure,
+  type RoomEffectInput,
+  type RoomEffectMethod,
+  type SourcePosition,
+} from "@/lib/hvac-noise";
+
+const POSITION_LABELS: Record<SourcePosition, string> = {
+  free: "Free space (Q = 1)",
+  surface: "Ceiling / wall (Q = 2)",
+  edge: "Edge (Q = 4)",
+  corner: "Corner (Q = 8)",
+};
+
+interface RoomEffectCalculatorProps {
+  /** Equipment sound power levels (Lw) */
+  soundPower: OctaveBandData;
+  /** Called with the room sound pressure levels when the user applies them */
+  onApply?: (soundPressure: OctaveBandData) => void;
+}
+
+export function RoomEffectCalculator({ soundPower, onApply }: RoomEffectCalculatorProps) {
+  const [method, setMethod] = useState<RoomEffectMethod>("schultz");
+  const [length, setLength] = useState("20");
+  const [width, setWidth] = useState("15");
+  const [height, setHeight] = useState("9");
+  const [distance, setDistance] = useState("8");
+  const [sourceCount, setSourceCount] = useState("1");
+  const [position, setPosition] = useState<SourcePosition>("surface");
+
+  // Room sound pressure, once every dimension needed by the method is valid
+  const soundPressure = useMemo(() => {
+    const input: RoomEffectInput = {
+      method,
+      room: { length: parseFloat(length), width: parseFloat(width), height: parseFloat(height) },
+      distance: parseFloat(distance),
+      sourceCount: parseInt(sourceCount),
+      position,
+    };
+    const dimensions = [input.room.length, input.room.width, input.room.height, input.sourceCount];
+    if (method !== "thompson") dimensions.push(input.distance);
+    if (dimensions.some((value) => !Number.isFinite(value) || value <= 0)) return undefined;
+
+    return soundPowerToPressure(soundPower, input);
+  }, [soundPower, method, length, width, height, distance, sourceCount, position]);
+
+  const roomResult = useMemo(() => {
+    return soundPressure ? convertSoundMeasurement({ octaveBands: soundPressure }) : undefined;
+  }, [soundPressure]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">Room Effect</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Convert sound power (LW) to the sound pressure (LP) heard in the room
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Method */}
+        <div className="space-y-2">
+          <Label htmlFor="room-effect-method">Method</Label>
+          <Select value={method} onValueChange={(v) => setMethod(v as RoomEffectMethod)}>
+            <SelectTrigger id="room-effect-method" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROOM_EFFECT_METHOD_LABELS) as RoomEffectMethod[]).map((m) => (
+                <SelectItem key={m} value={m}>
+                  {ROOM_EFFECT_METHOD_LABELS[m]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Room dimensions */}
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="room-length" className="text-xs">Length (ft)</Label>
+            <Input id="room-length" type="number" min="0" value={length} onChange={(e) => setLength(e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="room-width" className="text-xs">Width (ft)</Label>
+            <Input id="room-width" type="number" min="0" value={width} onChange={(e) => setWidth(e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="room-height" className="text-xs">Ceiling Height (ft)</Label>
+            <Input id="room-height" type="number" min="0" value={height} onChange={(e) => setHeight(e.target.value)} className="h-8" />
+          </div>
+        </div>
+
+        {/* Source and listener */}
+        <div className="grid grid-cols-2 gap-2">
+          {method !== "thompson" && (
+            <div className="space-y-1">
+              <Label htmlFor="room-distance" className="text-xs">Distance to Listener (ft)</Label>
+              <Input id="room-distance" type="number" min="0" value={distance} onChange={(e) => setDistance(e.target.value)} className="h-8" />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="room-sources" className="text-xs">Number of Sources</Label>
+            <Input id="room-sources" type="number" min="1" step="1" value={sourceCount} onChange={(e) => setSourceCount(e.target.value)} className="h-8" />
+          </div>
+          {method === "direct-reverberant" && (
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="room-position" className="text-xs">Source Position</Label>
+              <Select value={position} onValueChange={(v) => setPosition(v as SourcePosition)}>
+                <SelectTrigger id="room-position" className="w-full h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(POSITION_LABELS) as SourcePosition[]).map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {POSITION_LABELS[p]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {/* Room sound pressure */}
+        {soundPressure && roomResult && (
+          <div className="p-3 rounded-md bg-accent/50 space-y-3">
+            <div className="flex items-center gap-4 text-detail">
+              <div>
+                <span className="text-muted-foreground">Room NC: </span>
+                <span className="font-medium">{formatSoundValue(roomResult.nc ?? 0, "nc")}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Room dBA: </span>
+                <span className="font-medium">{formatSoundValue(roomResult.dba ?? 0, "dba")}</span>
+              </div>
+            </div>
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${getBandFrequencies(soundPressure).length}, minmax(0, 1fr))` }}
+            >
+              {getBandFrequencies(soundPressure).map((freq) => (
+                <div key={freq} className="text-center">
+                  <div className="text-[10px] text-muted-foreground">
+                    {freq >= 1000 ? `${freq / 1000}k` : freq} Hz
+                  </div>
+                  <div className="font-medium text-xs">{soundPressure[freq]}</div>
+                </div>
+              ))}
+            </div>
+            {onApply && (
+              <Button onClick={() => onApply(soundPressure)} size="sm" className="w-full">
+                Use Room Sound Pressure
+              </Button>
+            )}
+          </div>
+        )}
+
+        <p className="text-micro text-muted-foreground">
+          {method === "thompson"
+            ? "Level 5 ft above the floor under an array of ceiling sources, each emitting the sound power shown."
+            : method === "schultz"
+            ? "Typical furnished office or dwelling. Multiple sources are assumed at the same distance."
+            : "Direct field plus a reverberant field with an average absorption coefficient of 0.2."}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
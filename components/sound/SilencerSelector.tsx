@@ -0,0 +1,199 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { Plus, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RoomTypeSelect } from "./ComplianceChecker";
+import { NumberField } from "./PathFields";
+import { formatSoundValue, type OctaveBandData } from "@/lib/conversions";
+import { getRoomTypeById } from "@/lib/ashrae";
+import {
+  DEFAULT_SILENCER_CATALOG,
+  PATH_ELEMENT_LABELS,
+  SILENCER_TYPE_LABELS,
+  parseSilencerCatalog,
+  selectSilencers,
+  type PathElement,
+  type Silencer,
+} from "@/lib/hvac-noise";
+
+// Ranked options shown (all passing options are always shown)
+const MAX_FAILING_OPTIONS = 3;
+
+interface SilencerSelectorProps {
+  /** Fan sound power at the start of the path */
+  source: OctaveBandData;
+  /** Path elements in order from the fan */
+  elements: PathElement[];
+  /** Called to insert the chosen silencer into the path */
+  onInsert: (silencer: Silencer, position: number) => void;
+}
+
+export function SilencerSelector({ source, elements, onInsert }: SilencerSelectorProps) {
+  const id = useId();
+  const [roomId, setRoomId] = useState<string>("");
+  const [position, setPosition] = useState(0);
+  const [faceVelocity, setFaceVelocity] = useState(0);
+  const [catalog, setCatalog] = useState<Silencer[]>(DEFAULT_SILENCER_CATALOG);
+  const [catalogName, setCatalogName] = useState("Generic silencers");
+  const [catalogErrors, setCatalogErrors] = useState<string[]>([]);
+
+  const roomType = roomId ? getRoomTypeById(roomId) : undefined;
+
+  const options = useMemo(() => {
+    if (!roomType) return [];
+    return selectSilencers(source, elements, roomType, catalog, {
+      position,
+      faceVelocity: faceVelocity > 0 ? faceVelocity : undefined,
+    });
+  }, [source, elements, roomType, catalog, position, faceVelocity]);
+
+  const shown = [
+    ...options.filter((option) => option.meetsTarget),
+    ...options.filter((option) => !option.meetsTarget).slice(0, MAX_FAILING_OPTIONS),
+  ];
+
+  const handleCatalogFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { silencers, errors } = parseSilencerCatalog(file.name, await file.text());
+    setCatalogErrors(silencers.length === 0 ? [`No silencers loaded from ${file.name}`, ...errors] : errors);
+    if (silencers.length > 0) {
+      // Each error is one skipped entry
+      setCatalog(silencers);
+      setCatalogName(`${file.name} (${silencers.length} silencers${errors.length > 0 ? `, ${errors.length} skipped` : ""})`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-body-lg font-bold">Silencer Selection</CardTitle>
+        <CardDescription className="text-body-sm text-muted-foreground">
+          Rank silencers that bring the room under the target NC, lowest pressure drop first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-room`}>Target Room Type</Label>
+          <RoomTypeSelect id={`${id}-room`} value={roomId} onValueChange={setRoomId} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`${id}-position`} className="text-[10px] text-muted-foreground">Location</Label>
+            <Select value={position.toString()} onValueChange={(v) => setPosition(parseInt(v))}>
+              <SelectTrigger id={`${id}-position`} className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">At the fan</SelectItem>
+                {elements.map((element, index) =>
+                  element.type === "room-effect" ? null : (
+                    <SelectItem key={index} value={(index + 1).toString()}>
+                      After {index + 1}. {PATH_ELEMENT_LABELS[element.type]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <NumberField
+            id={`${id}-velocity`}
+            label="Face Velocity (fpm, 0 = as rated)"
+            value={faceVelocity}
+            onChange={setFaceVelocity}
+            step="50"
+          />
+        </div>
+
+        {/* Catalog */}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Catalog: {catalogName}</span>
+          <div className="flex gap-2">
+            {catalog !== DEFAULT_SILENCER_CATALOG && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  setCatalog(DEFAULT_SILENCER_CATALOG);
+                  setCatalogName("Generic silencers");
+                  setCatalogErrors([]);
+                }}
+              >
+                Use Generic
+              </Button>
+            )}
+            <Button size="sm" variant="outline" asChild>
+              <label htmlFor={`${id}-catalog`} className="cursor-pointer">
+                <Upload className="w-4 h-4 mr-1" />
+                Load JSON / CSV
+              </label>
+            </Button>
+            <Input
+              id={`${id}-catalog`}
+              type="file"
+              accept=".json,.csv"
+              className="hidden"
+              onChange={(e) => {
+                handleCatalogFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+        {catalogErrors.map((error) => (
+          <p key={error} className="text-xs text-amber-700">{error}</p>
+        ))}
+
+        {/* Ranked options */}
+        {roomType && shown.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left py-1 pr-2 font-medium">Silencer</th>
+                  <th className="py-1 px-1 font-medium text-right">Length</th>
+                  <th className="py-1 px-1 font-medium text-right">ΔP (in. w.g.)</th>
+                  <th className="py-1 px-1 font-medium text-right">Room</th>
+                  <th className="py-1 px-1 font-medium text-right">Margin</th>
+                  <th className="py-1 pl-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(({ silencer, result, meetsTarget, margin }) => (
+                  <tr key={silencer.id} className="border-b border-border">
+                    <td className="py-1 pr-2">
+                      <div>{silencer.manufacturer ? `${silencer.manufacturer} ` : ""}{silencer.model}</div>
+                      <div className="text-[10px] text-muted-foreground">{SILENCER_TYPE_LABELS[silencer.type]}</div>
+                    </td>
+                    <td className="py-1 px-1 text-right">{silencer.length} ft</td>
+                    <td className="py-1 px-1 text-right">{silencer.pressureDrop}</td>
+                    <td className="py-1 px-1 text-right font-medium">{formatSoundValue(result.nc, "nc")}</td>
+                    <td className={`py-1 px-1 text-right ${meetsTarget ? "text-[#16DA7C]" : "text-red-600"}`}>
+                      {margin > 0 ? "+" : ""}{margin}
+                    </td>
+                    <td className="py-1 pl-2 text-right">
+                      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => onInsert(silencer, position)}>
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {roomType && options.length > 0 && !options[0].meetsTarget && (
+          <p className="text-xs text-amber-700">
+            No silencer in the catalog meets NC-{roomType.ncMax} at this location. Try another location or a longer silencer.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,8 +12,10 @@ import {
   SoundMeasurement,
   OctaveBandData,
   OCTAVE_BAND_FREQUENCIES,
+  NR_CURVES,
+  getNeighborNCCurves,
 } from "@/lib/conversions";
-import { NCCurveChart } from "./NCCurveChart";
+import { NCCurveChart, type CurveFamily } from "./NCCurveChart";
 import { ComplianceChecker } from "./ComplianceChecker";
 import { DocumentUploader } from "./DocumentUploader";
 
@@ -24,6 +26,7 @@ export function SoundConverter() {
   const [inputValue, setInputValue] = useState<string>("");
   const [octaveBands, setOctaveBands] = useState<Partial<OctaveBandData>>({});
   const [result, setResult] = useState<SoundMeasurement | null>(null);
+  const [criterion, setCriterion] = useState<CurveFamily>("NC");
 
   const handleConvert = () => {
     let input: Partial<SoundMeasurement> = {};
@@ -187,7 +190,25 @@ export function SoundConverter() {
 
         {result && (
           <div className="mt-6 p-4 rounded-lg bg-accent/50 space-y-3">
-            <h3 className="font-bold text-body-sm">Conversion Results</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-body-sm">Conversion Results</h3>
+              {result.nr !== undefined && (
+                <div className="flex items-center gap-1">
+                  <span className="text-micro text-muted-foreground mr-1">Criterion</span>
+                  {(["NC", "NR"] as const).map((family) => (
+                    <Button
+                      key={family}
+                      size="sm"
+                      variant={criterion === family ? "default" : "outline"}
+                      className="h-7 px-2"
+                      onClick={() => setCriterion(family)}
+                    >
+                      {family}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="grid grid-cols-2 gap-4">
               {result.sones !== undefined && (
                 <ResultItem
@@ -196,13 +217,20 @@ export function SoundConverter() {
                   isInput={inputMode === "sones"}
                 />
               )}
-              {result.nc !== undefined && (
+              {result.nc !== undefined && (criterion === "NC" || result.nr === undefined) && (
                 <ResultItem
                   label="NC Rating"
                   value={formatSoundValue(result.nc, "nc")}
                   isInput={inputMode === "nc"}
                 />
               )}
+              {result.nr !== undefined && criterion === "NR" && (
+                <ResultItem
+                  label="NR Rating"
+                  value={formatSoundValue(result.nr, "nr")}
+                  isInput={false}
+                />
+              )}
               {result.dba !== undefined && (
                 <ResultItem
                   label="dBA"
@@ -231,21 +259,35 @@ export function SoundConverter() {
             )}
 
             {/* NC Curve Visualization */}
-            {result.octaveBands && result.nc !== undefined && (
+            {result.octaveBands && result.nc !== undefined && criterion === "NC" && (
               <div className="mt-6">
                 <h4 className="font-medium text-detail mb-2">NC Curve Comparison</h4>
                 <div className="bg-background rounded-lg p-4">
                   <NCCurveChart
                     userData={result.octaveBands}
                     height={350}
-                    showCurves={[
-                      Math.max(15, result.nc - 5),
-                      result.nc,
-                      Math.min(70, result.nc + 5),
-                    ]}
+                    showCurves={getNeighborNCCurves(result.nc)}
+                  />
+                  <p className="text-micro text-muted-foreground mt-2 text-center">
+                    Your data (circles) rates NC-{result.nc} by the tangency method. The solid bold curve is the lowest standard NC curve that contains all your data.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* NR Curve Visualization */}
+            {result.octaveBands && result.nr !== undefined && criterion === "NR" && (
+              <div className="mt-6">
+                <h4 className="font-medium text-detail mb-2">NR Curve Comparison</h4>
+                <div className="bg-background rounded-lg p-4">
+                  <NCCurveChart
+                    userData={result.octaveBands}
+                    height={350}
+                    curveFamily="NR"
+                    showCurves={getNeighborNCCurves(result.nr, NR_CURVES)}
                   />
                   <p className="text-micro text-muted-foreground mt-2 text-center">
-                    Your data (circles) compared to NC curves. The solid bold curve (NC-{result.nc}) is the lowest NC rating that contains all your data.
+                    Your data (circles) rates NR-{result.nr} by the tangency method. The solid bold curve is the lowest standard NR curve that contains all your data.
                   </p>
                 </div>
               </div>
@@ -253,14 +295,20 @@ export function SoundConverter() {
 
             <p className="text-micro text-muted-foreground mt-2">
               Note: Some conversions are approximate. NC ↔ dBA uses typical +6 dB relationship.
-              Sones conversions use phon scale approximations.
+              Sones from octave bands use Stevens Mark VI loudness; other sones conversions use phon scale approximations.
             </p>
           </div>
         )}
 
         {/* ASHRAE Compliance Checker */}
         <div className="mt-6">
-          <ComplianceChecker equipmentNC={result?.nc} />
+          <ComplianceChecker
+            equipmentNC={result?.nc}
+            equipmentNR={result?.nr}
+            criterion={result?.nr !== undefined ? criterion : "NC"}
+            controllingFrequency={result?.ncControllingFrequency}
+            equipmentNCRange={result?.ranges?.nc}
+          />
         </div>
 
         {/* Document Uploader */}
@@ -1,4 +1,13 @@
 export { SoundConverter } from "./SoundConverter";
 export { NCCurveChart, NCCurveMini, NCCurveLegend } from "./NCCurveChart";
-export { ComplianceChecker, ComplianceIndicator } from "./ComplianceChecker";
+export { ComplianceChecker, ComplianceIndicator, RoomTypeSelect } from "./ComplianceChecker";
 export { DocumentUploader } from "./DocumentUploader";
+export { RoomEffectCalculator } from "./RoomEffectCalculator";
+export { PathCalculator } from "./PathCalculator";
+export { BreakoutCalculator } from "./BreakoutCalculator";
+export { DiffuserCalculator } from "./DiffuserCalculator";
+export { AHRI885Calculator } from "./AHRI885Calculator";
+export { FanLawScaler } from "./FanLawScaler";
+export { FanSoundEstimator } from "./FanSoundEstimator";
+export { BackgroundCorrection } from "./BackgroundCorrection";
+export { OutdoorCalculator } from "./OutdoorCalculator";
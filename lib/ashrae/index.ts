@@ -9,6 +9,7 @@ export {
   type RoomCategory,
   type RoomCategoryInfo,
   type ComplianceResult,
+  type RatingCriterion,
   // Data
   ROOM_CATEGORIES,
   ROOM_TYPES,
@@ -17,6 +18,7 @@ export {
   getRoomTypeById,
   getCategoryForRoom,
   checkCompliance,
+  checkNRCompliance,
   getCompliantRoomTypes,
   getRoomTypesGrouped,
 } from "./room-types";
@@ -6,6 +6,8 @@
  * Lower NC values indicate quieter requirements.
  */
 
+import type { ValueRange } from "../conversions/types";
+
 export interface RoomType {
   id: string;
   name: string;
@@ -439,69 +441,127 @@ export function getCategoryForRoom(roomId: string): RoomCategoryInfo | undefined
   return ROOM_CATEGORIES.find((cat) => cat.id === room.category);
 }
 
+/**
+ * Rating criterion used for a compliance check
+ */
+export type RatingCriterion = "NC" | "NR";
+
 /**
  * Compliance check result
+ * For NR checks the NC-named fields hold NR values (see criterion)
  */
 export interface ComplianceResult {
   compliant: boolean;
+  criterion: RatingCriterion;
   equipmentNC: number;
   targetNCMin: number;
   targetNCMax: number;
   margin: number;           // Positive = under target (good), Negative = over target (bad)
-  status: "excellent" | "good" | "marginal" | "fail";
+  status: "excellent" | "good" | "marginal" | "fail" | "indeterminate";
   message: string;
+  controllingFrequency?: number;  // Octave band (Hz) that sets the equipment rating
+  equipmentRange?: ValueRange;    // Uncertainty range of an estimated equipment rating
 }
 
 /**
- * Check if equipment NC rating complies with room requirements
- * 
- * Status levels:
- * - excellent: Equipment is quieter than the minimum recommended (best case)
- * - good: Equipment is within the recommended NC range
- * - marginal: Equipment exceeds target by 1-2 NC points (borderline)
- * - fail: Equipment exceeds target by 3+ NC points
+ * Classify an equipment rating against a target range
  */
-export function checkCompliance(equipmentNC: number, roomType: RoomType): ComplianceResult {
-  const margin = roomType.ncMax - equipmentNC;
-  const exceedance = equipmentNC - roomType.ncMax;
+function evaluateRating(
+  criterion: RatingCriterion,
+  equipmentRating: number,
+  targetMin: number,
+  targetMax: number,
+  controllingFrequency?: number,
+  equipmentRange?: ValueRange
+): ComplianceResult {
+  const margin = targetMax - equipmentRating;
+  const exceedance = equipmentRating - targetMax;
+  const controllingNote = controllingFrequency !== undefined
+    ? ` (set by the ${controllingFrequency >= 1000 ? `${controllingFrequency / 1000}k` : controllingFrequency} Hz band)`
+    : "";
   
   let status: ComplianceResult["status"];
   let compliant: boolean;
   let message: string;
   
-  if (equipmentNC <= roomType.ncMin) {
+  if (equipmentRange && equipmentRange.min <= targetMax && equipmentRange.max > targetMax) {
+    // Uncertainty range straddles the target - cannot confirm either way
+    status = "indeterminate";
+    compliant = false;
+    message = `Indeterminate within uncertainty: estimated ${criterion} ${equipmentRange.min}-${equipmentRange.max} spans the ${criterion}-${targetMax} target. Request octave band data to confirm.`;
+  } else if (equipmentRating <= targetMin) {
     // Exceeds requirements (quieter than minimum)
     status = "excellent";
     compliant = true;
-    message = `Exceeds requirements by ${roomType.ncMin - equipmentNC} NC points`;
-  } else if (equipmentNC <= roomType.ncMax) {
+    message = `Exceeds requirements by ${targetMin - equipmentRating} ${criterion} points`;
+  } else if (equipmentRating <= targetMax) {
     // Meets requirements (within range)
     status = "good";
     compliant = true;
-    message = `Meets requirements with ${margin} NC points margin`;
+    message = `Meets requirements with ${margin} ${criterion} points margin`;
   } else if (exceedance <= 2) {
-    // Marginal (1-2 NC points over - borderline)
+    // Marginal (1-2 points over - borderline)
     status = "marginal";
     compliant = false;
-    message = `Exceeds target by ${exceedance} NC points (borderline)`;
+    message = `Exceeds target by ${exceedance} ${criterion} points${controllingNote} (borderline)`;
   } else {
-    // Fail (3+ NC points over)
+    // Fail (3+ points over)
     status = "fail";
     compliant = false;
-    message = `Exceeds target by ${exceedance} NC points`;
+    message = `Exceeds target by ${exceedance} ${criterion} points${controllingNote}`;
   }
   
   return {
     compliant,
-    equipmentNC,
-    targetNCMin: roomType.ncMin,
-    targetNCMax: roomType.ncMax,
+    criterion,
+    equipmentNC: equipmentRating,
+    targetNCMin: targetMin,
+    targetNCMax: targetMax,
     margin,
     status,
     message,
+    controllingFrequency,
+    equipmentRange,
   };
 }
 
+/**
+ * Check if equipment NC rating complies with room requirements
+ * 
+ * Status levels:
+ * - excellent: Equipment is quieter than the minimum recommended (best case)
+ * - good: Equipment is within the recommended NC range
+ * - marginal: Equipment exceeds target by 1-2 NC points (borderline)
+ * - fail: Equipment exceeds target by 3+ NC points
+ * - indeterminate: The NC uncertainty range spans the target maximum
+ * 
+ * Pass the controlling octave band from the tangency rating to have it
+ * named in exceedance messages. Pass the uncertainty range of an NC
+ * converted from dBA or sones so that it is only passed or failed when the
+ * whole range is on one side of the target.
+ */
+export function checkCompliance(
+  equipmentNC: number,
+  roomType: RoomType,
+  controllingFrequency?: number,
+  ncRange?: ValueRange
+): ComplianceResult {
+  return evaluateRating("NC", equipmentNC, roomType.ncMin, roomType.ncMax, controllingFrequency, ncRange);
+}
+
+/**
+ * Check an equipment NR rating against a specified NR limit (e.g., NR-35)
+ * Project specs give a single maximum, so ratings 5 or more points below
+ * the limit are treated as "excellent".
+ */
+export function checkNRCompliance(
+  equipmentNR: number,
+  nrLimit: number,
+  controllingFrequency?: number
+): ComplianceResult {
+  return evaluateRating("NR", equipmentNR, nrLimit - 5, nrLimit, controllingFrequency);
+}
+
 /**
  * Get all room types that an equipment NC would comply with
  */
@@ -0,0 +1,74 @@
+/**
+ * Background Noise Correction
+ *
+ * A field measurement includes the ambient (background) noise present with
+ * the source off. With ΔL = measured total - background in each band:
+ *
+ *   ΔL > 10 dB:       no correction
+ *   3 ≤ ΔL ≤ 10 dB:   K = -10 log(1 - 10^(-ΔL/10)), source = total - K
+ *   ΔL < 3 dB:        invalid; the largest correction (3 dB) is applied and
+ *                     the level is reported as an upper bound
+ *
+ * Source: ANSI/ASA S12.72 and ISO 3744 (background noise correction K1)
+ */
+
+import { BackgroundCorrectionResult, BackgroundCorrectionStatus, EXTENDED_OCTAVE_BAND_FREQUENCIES, OctaveBandData } from "./types";
+
+export const BACKGROUND_CORRECTION_STATUS_LABELS: Record<BackgroundCorrectionStatus, string> = {
+  uncorrected: "No correction (> 10 dB above background)",
+  corrected: "Corrected (3 - 10 dB above background)",
+  invalid: "Invalid (< 3 dB above background, upper bound)",
+};
+
+// Level differences that bound the correction range (dB)
+export const BACKGROUND_NO_CORRECTION_DIFFERENCE = 10;
+export const BACKGROUND_MIN_VALID_DIFFERENCE = 3;
+
+/**
+ * Correction (dB) to subtract for a level difference above background
+ * Differences below the valid range get the largest valid correction.
+ */
+export function getBackgroundCorrection(difference: number): number {
+  if (difference > BACKGROUND_NO_CORRECTION_DIFFERENCE) return 0;
+  const delta = Math.max(difference, BACKGROUND_MIN_VALID_DIFFERENCE);
+  return Math.round(-10 * Math.log10(1 - Math.pow(10, -delta / 10)) * 10) / 10;
+}
+
+/**
+ * Correct a measured spectrum for background noise band by band
+ * Bands with no measured data are skipped; bands with no background data
+ * are left uncorrected.
+ */
+export function correctForBackground(measured: OctaveBandData, background: OctaveBandData): BackgroundCorrectionResult {
+  const result: BackgroundCorrectionResult = {
+    octaveBands: {} as OctaveBandData,
+    corrections: {},
+    status: {},
+    invalidBands: [],
+  };
+
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    const level = measured[freq];
+    if (level === undefined) continue;
+
+    const backgroundLevel = background[freq] ?? 0;
+    if (!(level > 0 && backgroundLevel > 0)) {
+      result.octaveBands[freq] = level;
+      continue;
+    }
+
+    const difference = level - backgroundLevel;
+    const correction = getBackgroundCorrection(difference);
+    const status: BackgroundCorrectionStatus =
+      difference > BACKGROUND_NO_CORRECTION_DIFFERENCE ? "uncorrected"
+      : difference >= BACKGROUND_MIN_VALID_DIFFERENCE ? "corrected"
+      : "invalid";
+
+    result.octaveBands[freq] = Math.round((level - correction) * 10) / 10;
+    result.corrections[freq] = correction;
+    result.status[freq] = status;
+    if (status === "invalid") result.invalidBands.push(freq);
+  }
+
+  return result;
+}
@@ -0,0 +1,26 @@
+/**
+ * Octave Band Helpers
+ *
+ * The eight standard bands (63 Hz - 8 kHz) are always present in
+ * OctaveBandData; 31.5 Hz and 16 kHz are only used when measured.
+ */
+
+import { ExtendedOctaveBandFrequency, OctaveBandData, EXTENDED_OCTAVE_BAND_FREQUENCIES } from "./types";
+
+/**
+ * Check whether an optional extended band has a measured value
+ */
+export function hasBand(octaveBands: OctaveBandData, freq: ExtendedOctaveBandFrequency): boolean {
+  const level = octaveBands[freq];
+  return level !== undefined && Number.isFinite(level) && level > 0;
+}
+
+/**
+ * Get the frequencies present in octave band data, in ascending order
+ * Always includes 63 Hz - 8 kHz, plus 31.5 Hz and 16 kHz when measured
+ */
+export function getBandFrequencies(octaveBands: OctaveBandData): ExtendedOctaveBandFrequency[] {
+  return EXTENDED_OCTAVE_BAND_FREQUENCIES.filter(
+    (freq) => (freq !== 31.5 && freq !== 16000) || hasBand(octaveBands, freq)
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Decibel Arithmetic
+ *
+ * Sound levels are logarithmic, so they are combined on an energy basis
+ * rather than added arithmetically (two 50 dB sources make 53 dB, not 100 dB).
+ *
+ *   Sum:        L = 10 log Σ 10^(Li/10)
+ *   Average:    L = 10 log( (1/n) Σ 10^(Li/10) )
+ *   Difference: L = 10 log( 10^(Ltotal/10) - 10^(Lpart/10) )
+ */
+
+import { OctaveBandData, EXTENDED_OCTAVE_BAND_FREQUENCIES } from "./types";
+
+/**
+ * Add decibel levels on an energy basis
+ * Returns 0 for an empty list.
+ */
+export function addDecibels(levels: number[]): number {
+  if (levels.length === 0) return 0;
+
+  const sum = levels.reduce((acc, level) => acc + Math.pow(10, level / 10), 0);
+  return 10 * Math.log10(sum);
+}
+
+/**
+ * Energy-average decibel levels (e.g., several measurements of one source)
+ * Returns 0 for an empty list.
+ */
+export function averageDecibels(levels: number[]): number {
+  if (levels.length === 0) return 0;
+
+  return addDecibels(levels) - 10 * Math.log10(levels.length);
+}
+
+/**
+ * Remove one contribution from a total level on an energy basis
+ * Returns 0 when the part is at or above the total (nothing is left).
+ */
+export function subtractDecibels(total: number, part: number): number {
+  const remainder = Math.pow(10, total / 10) - Math.pow(10, part / 10);
+  return remainder > 1 ? 10 * Math.log10(remainder) : 0;
+}
+
+/**
+ * Apply a decibel operation band by band
+ * Bands with no data (0 or missing) are skipped. 31.5 Hz and 16 kHz are
+ * included when any spectrum has them.
+ */
+function combineBands(spectra: OctaveBandData[], combine: (levels: number[]) => number): OctaveBandData {
+  const result = {} as OctaveBandData;
+
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    const levels = spectra
+      .map((spectrum) => spectrum[freq])
+      .filter((level): level is number => level !== undefined && Number.isFinite(level) && level > 0);
+    if ((freq !== 31.5 && freq !== 16000) || levels.length > 0) {
+      result[freq] = Math.round(combine(levels) * 10) / 10;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Energy-sum several octave band spectra band by band
+ * Bands with no data (0 or missing) are skipped. 31.5 Hz and 16 kHz are
+ * included when any spectrum has them.
+ */
+export function addOctaveBands(spectra: OctaveBandData[]): OctaveBandData {
+  return combineBands(spectra, addDecibels);
+}
+
+/**
+ * Energy-average several octave band spectra band by band
+ * Each band averages only the spectra with data in that band.
+ */
+export function averageOctaveBands(spectra: OctaveBandData[]): OctaveBandData {
+  return combineBands(spectra, averageDecibels);
+}
+
+/**
+ * Remove one spectrum from a total band by band (e.g., a known source from
+ * a measured total)
+ * Bands where the part is missing keep the total; bands where the part is
+ * at or above the total are 0.
+ */
+export function subtractOctaveBands(total: OctaveBandData, part: OctaveBandData): OctaveBandData {
+  const result = {} as OctaveBandData;
+
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    const level = total[freq];
+    if (level === undefined) continue;
+    const partLevel = part[freq] ?? 0;
+    result[freq] = level > 0 && partLevel > 0 ? Math.round(subtractDecibels(level, partLevel) * 10) / 10 : level;
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * Fan Law Sound Power Scaling
+ *
+ * Manufacturers publish sound data at one operating point. For the same fan
+ * at another point, sound power scales with the fan laws
+ * (Q ∝ N, P ∝ N², Lw ∝ 10 log Q + 20 log P):
+ *
+ *   Speed:              ΔLw = 50 log(N2 / N1)
+ *   Airflow:            ΔLw = 50 log(Q2 / Q1)
+ *   Static pressure:    ΔLw = 25 log(P2 / P1)
+ *   Airflow + pressure: ΔLw = 10 log(Q2 / Q1) + 20 log(P2 / P1)
+ *
+ * The correction is applied to every band. Blade-pass tones also move in
+ * frequency with speed, so large speed changes are less reliable in the
+ * bands near the blade-pass frequency.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); AMCA Publication 303
+ */
+
+import { EXTENDED_OCTAVE_BAND_FREQUENCIES, FanLawBasis, FanOperatingPoint, OctaveBandData } from "./types";
+
+export const FAN_LAW_BASIS_LABELS: Record<FanLawBasis, string> = {
+  speed: "Fan speed (50 log N)",
+  airflow: "Airflow (50 log Q)",
+  pressure: "Static pressure (25 log P)",
+  "airflow-pressure": "Airflow and pressure (10 log Q + 20 log P)",
+};
+
+// Unit conversions to rpm, CFM and in. w.g. (units matched at the end of the text)
+const AIRFLOW_UNITS: [RegExp, number][] = [
+  [/l\/s|lps/i, 2.1189],
+  [/m3\/h|m³\/h|cmh/i, 0.5886],
+  [/m3\/s|m³\/s/i, 2118.88],
+];
+const PRESSURE_UNITS: [RegExp, number][] = [
+  [/kpa/i, 4.0146],
+  [/pa\b/i, 0.0040146],
+];
+
+/**
+ * First number in a text value (e.g., "2,000 CFM" → 2000)
+ */
+function parseNumber(text: string | undefined): number | undefined {
+  const match = text?.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  const value = match ? parseFloat(match[0]) : NaN;
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Number converted to inch-pound units by the unit named in the text
+ */
+function parseWithUnits(text: string | undefined, units: [RegExp, number][]): number | undefined {
+  const value = parseNumber(text);
+  if (value === undefined || !text) return value;
+  const unit = units.find(([pattern]) => pattern.test(text));
+  return unit ? Math.round(value * unit[1] * 1000) / 1000 : value;
+}
+
+/**
+ * Operating point from text conditions (e.g., extracted from a spec sheet)
+ * Metric airflow (L/s, m³/h, m³/s) and pressure (Pa, kPa) are converted to
+ * CFM and in. w.g.
+ */
+export function parseOperatingPoint(conditions?: {
+  fanSpeed?: string;
+  airflow?: string;
+  staticPressure?: string;
+}): FanOperatingPoint {
+  return {
+    fanSpeed: parseNumber(conditions?.fanSpeed),
+    airflow: parseWithUnits(conditions?.airflow, AIRFLOW_UNITS),
+    staticPressure: parseWithUnits(conditions?.staticPressure, PRESSURE_UNITS),
+  };
+}
+
+/**
+ * Fan law bases that both operating points have the values for
+ */
+export function getAvailableFanLawBases(base: FanOperatingPoint, target: FanOperatingPoint): FanLawBasis[] {
+  const has = (key: keyof FanOperatingPoint) => (base[key] ?? 0) > 0 && (target[key] ?? 0) > 0;
+  const bases: FanLawBasis[] = [];
+  if (has("fanSpeed")) bases.push("speed");
+  if (has("airflow")) bases.push("airflow");
+  if (has("staticPressure")) bases.push("pressure");
+  if (has("airflow") && has("staticPressure")) bases.push("airflow-pressure");
+  return bases;
+}
+
+/**
+ * Sound power change (dB) from the base to the target operating point
+ * Returns undefined when either point lacks a value the basis needs.
+ */
+export function getFanLawCorrection(
+  base: FanOperatingPoint,
+  target: FanOperatingPoint,
+  basis: FanLawBasis
+): number | undefined {
+  if (!getAvailableFanLawBases(base, target).includes(basis)) return undefined;
+
+  const ratio = (key: keyof FanOperatingPoint) => Math.log10(target[key]! / base[key]!);
+  let correction: number;
+  switch (basis) {
+    case "speed":
+      correction = 50 * ratio("fanSpeed");
+      break;
+    case "airflow":
+      correction = 50 * ratio("airflow");
+      break;
+    case "pressure":
+      correction = 25 * ratio("staticPressure");
+      break;
+    case "airflow-pressure":
+      correction = 10 * ratio("airflow") + 20 * ratio("staticPressure");
+      break;
+  }
+  return Math.round(correction * 10) / 10;
+}
+
+/**
+ * Target operating point implied by a speed change (Q ∝ N, P ∝ N²)
+ * Values missing from the base stay missing.
+ */
+export function scaleOperatingPoint(base: FanOperatingPoint, fanSpeed: number): FanOperatingPoint {
+  const ratio = base.fanSpeed ? fanSpeed / base.fanSpeed : 1;
+  return {
+    fanSpeed,
+    airflow: base.airflow !== undefined ? Math.round(base.airflow * ratio) : undefined,
+    staticPressure: base.staticPressure !== undefined ? Math.round(base.staticPressure * ratio * ratio * 100) / 100 : undefined,
+  };
+}
+
+/**
+ * Spectrum at a new operating point
+ * Returns undefined when the basis cannot be applied. Bands with no data stay 0.
+ */
+export function scaleSpectrumByFanLaw(
+  spectrum: OctaveBandData,
+  base: FanOperatingPoint,
+  target: FanOperatingPoint,
+  basis: FanLawBasis
+): OctaveBandData | undefined {
+  const correction = getFanLawCorrection(base, target, basis);
+  if (correction === undefined) return undefined;
+
+  const scaled = {} as OctaveBandData;
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    const level = spectrum[freq];
+    if (level === undefined) continue;
+    scaled[freq] = level > 0 ? Math.round((level + correction) * 10) / 10 : 0;
+  }
+  return scaled;
+}
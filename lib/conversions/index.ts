@@ -2,27 +2,66 @@
  * Sound Conversions Library
  * 
  * Provides conversion functions between common HVAC sound measurement units:
- * - Sones (loudness)
+ * - Sones (loudness, Stevens Mark VI from octave bands)
  * - NC (Noise Criteria)
- * - dBA (A-weighted decibels)
+ * - NCB (Balanced Noise Criteria) and RNC (Room Noise Criterion)
+ * - NR (ISO Noise Rating)
+ * - RC Mark II (Room Criteria)
+ * - dBA (A-weighted decibels), dBC and dBZ (C- and Z-weighted decibels)
  * - Octave band data (dB at each frequency)
+ * - One-third octave band data (energy-summed to octave bands)
+ * - Fan law scaling of spectra between fan operating points
+ * - Background noise correction of field measurements
  * 
  * Note: Many conversions are approximations due to the different nature
- * of these measurements. Use ConversionResult.confidence to indicate accuracy.
+ * of these measurements. Use ConversionResult.confidence to indicate accuracy
+ * and ConversionResult.range for the uncertainty bounds, which are carried
+ * through chained conversions (e.g. NC → dBA → sones).
+ * Single-number conversions accept an optional equipment type, which uses a
+ * typical spectrum shape and gives a narrower range.
  */
 
-import { ConversionResult, OctaveBandData, SoundMeasurement, OCTAVE_BAND_FREQUENCIES } from "./types";
-import { calculateNCRating, interpolateNCCurve } from "./nc-curves";
+import {
+  ConversionOptions,
+  ConversionResult,
+  EquipmentType,
+  ExtendedOctaveBandFrequency,
+  OctaveBandData,
+  SoundMeasurement,
+  ValueRange,
+  OCTAVE_BAND_FREQUENCIES,
+} from "./types";
+import { getBandFrequencies } from "./bands";
+import { calculateNCTangency, interpolateCriterionCurve, interpolateNCCurve, NC_CURVES } from "./nc-curves";
+import { calculateNCBRating, formatNCBRating } from "./ncb-curves";
+import { calculateRNCRating } from "./rnc-curves";
+import { calculateNRRating } from "./nr-curves";
+import { calculateRCRating, formatRCRating, RC_QUALITY_LABELS } from "./rc-curves";
+import { calculateStevensLoudness } from "./loudness";
+import { thirdOctaveToOctaveBands } from "./third-octave";
+import { getTemplateSpectrum, SPECTRUM_TEMPLATES } from "./spectrum-templates";
 
-// Re-export types and NC curve utilities
+// Re-export types and criterion curve utilities
 export * from "./types";
+export * from "./bands";
 export * from "./nc-curves";
+export * from "./ncb-curves";
+export * from "./rnc-curves";
+export * from "./nr-curves";
+export * from "./rc-curves";
+export * from "./loudness";
+export * from "./decibels";
+export * from "./third-octave";
+export * from "./spectrum-templates";
+export * from "./fan-laws";
+export * from "./background";
 
 /**
  * A-weighting correction factors for octave band frequencies
  * Applied to convert flat dB to A-weighted dB (dBA)
  */
-const A_WEIGHTING: Record<number, number> = {
+const A_WEIGHTING: Record<ExtendedOctaveBandFrequency, number> = {
+  31.5: -39.4,
   63: -26.2,
   125: -16.1,
   250: -8.6,
@@ -31,8 +70,37 @@ const A_WEIGHTING: Record<number, number> = {
   2000: 1.2,
   4000: 1.0,
   8000: -1.1,
+  16000: -6.6,
 };
 
+/**
+ * C-weighting correction factors for octave band frequencies
+ * Nearly flat from 63 Hz to 4 kHz, so dBC keeps the low-frequency energy
+ * that A-weighting discounts
+ */
+const C_WEIGHTING: Record<ExtendedOctaveBandFrequency, number> = {
+  31.5: -3.0,
+  63: -0.8,
+  125: -0.2,
+  250: 0,
+  500: 0,
+  1000: 0,
+  2000: -0.2,
+  4000: -0.8,
+  8000: -3.0,
+  16000: -8.5,
+};
+
+// dBC - dBA difference (dB) above which low-frequency content is a likely
+// source of rumble complaints
+export const LOW_FREQUENCY_IMBALANCE_THRESHOLD = 20;
+
+// Spread (±dB) of the generic single-number offsets used without a spectrum
+// template: NC runs 4 - 10 dB below dBA for HVAC noise, and the loudness
+// level in phons runs up to 10 dB above dBA for broadband noise
+const NC_DBA_UNCERTAINTY = 3;
+const PHON_DBA_UNCERTAINTY = 5;
+
 /**
  * Convert sones to phons (loudness level)
  * Sones = 2^((phons - 40) / 10)
@@ -55,16 +123,105 @@ export function phonsToSones(phons: number): number {
   return Math.pow(2, (phons - 40) / 10);
 }
 
+/**
+ * Level of a template's loudest band that rates exactly at an NC
+ * The template spectrum touches the interpolated NC curve at its controlling band.
+ */
+function templateLevelForNC(equipmentType: EquipmentType, nc: number): number {
+  const { shape } = SPECTRUM_TEMPLATES[equipmentType];
+  const curve = interpolateCriterionCurve(NC_CURVES, nc);
+  return Math.min(...OCTAVE_BAND_FREQUENCIES.map((freq) => curve[freq] - shape[freq]));
+}
+
+/**
+ * Level of a template's loudest band that gives an overall dBA
+ */
+function templateLevelForDBA(equipmentType: EquipmentType, dba: number): number {
+  return dba - weightedOverallLevel(getTemplateSpectrum(equipmentType, 0), A_WEIGHTING);
+}
+
+/**
+ * Level of a template's loudest band that gives a loudness in sones
+ * Loudness rises monotonically with level, so the level is found by bisection.
+ */
+function templateLevelForSones(equipmentType: EquipmentType, sones: number): number {
+  let low = -20;
+  let high = 140;
+  
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (calculateStevensLoudness(getTemplateSpectrum(equipmentType, mid)).sones < sones) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  
+  return (low + high) / 2;
+}
+
+/**
+ * Estimate a single-number value from a template spectrum at a given level
+ * The range is the value with the template shifted by its typical spread.
+ */
+function templateEstimate(
+  equipmentType: EquipmentType,
+  level: number,
+  measure: (spectrum: OctaveBandData) => number,
+  precision: number
+): ConversionResult {
+  const { label, spread } = SPECTRUM_TEMPLATES[equipmentType];
+  const round = (value: number) => Math.round(value * precision) / precision;
+  
+  return {
+    value: round(measure(getTemplateSpectrum(equipmentType, level))),
+    confidence: "approximate",
+    range: {
+      min: round(measure(getTemplateSpectrum(equipmentType, level - spread))),
+      max: round(measure(getTemplateSpectrum(equipmentType, level + spread))),
+    },
+    notes: `Based on a typical ${label} spectrum (±${spread} dB spread).`,
+  };
+}
+
+/**
+ * Uncertainty range of a conversion result (the value itself when exact)
+ */
+function rangeOf(result: ConversionResult): ValueRange {
+  return result.range ?? { min: result.value, max: result.value };
+}
+
+/**
+ * Propagate an uncertainty range through a second conversion
+ * Both conversions rise monotonically, so the bounds map to the bounds and
+ * the uncertainty of each stage adds (worst case).
+ */
+function chainRange(first: ConversionResult, convert: (value: number) => ConversionResult): ValueRange {
+  const { min, max } = rangeOf(first);
+  return {
+    min: rangeOf(convert(min)).min,
+    max: rangeOf(convert(max)).max,
+  };
+}
+
+const measureDBA = (spectrum: OctaveBandData) => weightedOverallLevel(spectrum, A_WEIGHTING);
+const measureNC = (spectrum: OctaveBandData) => calculateNCTangency(spectrum).exactRating;
+const measureSones = (spectrum: OctaveBandData) => calculateStevensLoudness(spectrum).sones;
+
 /**
  * Convert sones to approximate dBA
  * This is an approximation based on typical relationships
- * 1 sone ≈ 40 dBA at 1 kHz
+ * 1 sone ≈ 40 dBA at 1 kHz. Pass an equipment type to use its spectrum template.
  */
-export function sonesToDBA(sones: number): ConversionResult {
+export function sonesToDBA(sones: number, equipmentType?: EquipmentType): ConversionResult {
   if (sones <= 0) {
     return { value: 0, confidence: "exact" };
   }
   
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForSones(equipmentType, sones), measureDBA, 10);
+  }
+  
   // Convert sones to phons, then approximate to dBA
   // At 1 kHz, phons ≈ dB SPL ≈ dBA
   const phons = sonesToPhons(sones);
@@ -72,180 +229,411 @@ export function sonesToDBA(sones: number): ConversionResult {
   return {
     value: Math.round(phons * 10) / 10,
     confidence: "approximate",
+    range: {
+      min: Math.round((phons - PHON_DBA_UNCERTAINTY) * 10) / 10,
+      max: Math.round((phons + PHON_DBA_UNCERTAINTY) * 10) / 10,
+    },
     notes: "dBA approximated from sones via phons. Accuracy depends on frequency content.",
   };
 }
 
 /**
  * Convert dBA to approximate sones
+ * Pass an equipment type to use its spectrum template.
  */
-export function dbaToSones(dba: number): ConversionResult {
+export function dbaToSones(dba: number, equipmentType?: EquipmentType): ConversionResult {
   if (dba <= 0) {
     return { value: 0, confidence: "exact" };
   }
   
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForDBA(equipmentType, dba), measureSones, 100);
+  }
+  
   // Treat dBA as approximately equal to phons
   const sones = phonsToSones(dba);
   
   return {
     value: Math.round(sones * 100) / 100,
     confidence: "approximate",
+    range: {
+      min: Math.round(phonsToSones(Math.max(0, dba - PHON_DBA_UNCERTAINTY)) * 100) / 100,
+      max: Math.round(phonsToSones(dba + PHON_DBA_UNCERTAINTY) * 100) / 100,
+    },
     notes: "Sones approximated from dBA. Actual loudness depends on frequency content.",
   };
 }
 
 /**
- * Calculate overall dBA from octave band data
- * Uses A-weighting and logarithmic addition
+ * Logarithmic sum of octave band levels with a weighting applied
+ * (no weighting = Z-weighted / flat). 31.5 Hz and 16 kHz are included
+ * when measured.
  */
-export function octaveBandsToDBA(octaveBands: OctaveBandData): ConversionResult {
+function weightedOverallLevel(
+  octaveBands: OctaveBandData,
+  weighting?: Record<ExtendedOctaveBandFrequency, number>
+): number {
   let sumPressureSquared = 0;
   
-  for (const freq of OCTAVE_BAND_FREQUENCIES) {
-    const aWeightedDB = octaveBands[freq] + A_WEIGHTING[freq];
+  for (const freq of getBandFrequencies(octaveBands)) {
+    const weightedDB = (octaveBands[freq] ?? 0) + (weighting?.[freq] ?? 0);
     // Convert dB to pressure ratio squared and sum
-    sumPressureSquared += Math.pow(10, aWeightedDB / 10);
+    sumPressureSquared += Math.pow(10, weightedDB / 10);
   }
   
   // Convert back to dB
-  const overallDBA = 10 * Math.log10(sumPressureSquared);
-  
+  return Math.round(10 * Math.log10(sumPressureSquared) * 10) / 10;
+}
+
+/**
+ * Calculate overall dBA from octave band data
+ * Uses A-weighting and logarithmic addition
+ */
+export function octaveBandsToDBA(octaveBands: OctaveBandData): ConversionResult {
   return {
-    value: Math.round(overallDBA * 10) / 10,
+    value: weightedOverallLevel(octaveBands, A_WEIGHTING),
     confidence: "exact",
     notes: "Calculated using A-weighting factors and logarithmic addition.",
   };
 }
 
+/**
+ * Calculate overall dBC from octave band data
+ * Uses C-weighting and logarithmic addition
+ */
+export function octaveBandsToDBC(octaveBands: OctaveBandData): ConversionResult {
+  return {
+    value: weightedOverallLevel(octaveBands, C_WEIGHTING),
+    confidence: "exact",
+    notes: "Calculated using C-weighting factors and logarithmic addition.",
+  };
+}
+
+/**
+ * Calculate overall unweighted (Z-weighted) level from octave band data
+ */
+export function octaveBandsToDBZ(octaveBands: OctaveBandData): ConversionResult {
+  return {
+    value: weightedOverallLevel(octaveBands),
+    confidence: "exact",
+    notes: "Unweighted logarithmic sum of the octave band levels.",
+  };
+}
+
+/**
+ * Diagnose low-frequency imbalance from the dBC - dBA difference
+ * A difference over 20 dB indicates a low-frequency problem (rumble);
+ * 10 - 20 dB is typical of HVAC noise with noticeable low-frequency content.
+ */
+export function calculateLowFrequencyImbalance(octaveBands: OctaveBandData): ConversionResult {
+  const dba = weightedOverallLevel(octaveBands, A_WEIGHTING);
+  const dbc = weightedOverallLevel(octaveBands, C_WEIGHTING);
+  const difference = Math.round((dbc - dba) * 10) / 10;
+  
+  let notes: string;
+  if (difference > LOW_FREQUENCY_IMBALANCE_THRESHOLD) {
+    notes = `dBC exceeds dBA by ${difference} dB. Low-frequency imbalance: expect rumble complaints even if the dBA level is acceptable.`;
+  } else if (difference > 10) {
+    notes = `dBC exceeds dBA by ${difference} dB. Noticeable low-frequency content; check the 31.5 - 125 Hz bands.`;
+  } else {
+    notes = `dBC exceeds dBA by ${difference} dB. Spectrum is balanced; no low-frequency problem indicated.`;
+  }
+  
+  return {
+    value: difference,
+    confidence: "exact",
+    notes,
+  };
+}
+
 /**
  * Convert NC rating to approximate dBA
- * Based on typical relationship: NC ≈ dBA - 5 to 7
+ * Based on typical relationship: NC ≈ dBA - 5 to 7.
+ * Pass an equipment type to use its spectrum template.
  */
-export function ncToDBA(nc: number): ConversionResult {
+export function ncToDBA(nc: number, equipmentType?: EquipmentType): ConversionResult {
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForNC(equipmentType, nc), measureDBA, 10);
+  }
+  
   // NC is typically 5-7 dB below dBA for HVAC noise
   const dba = nc + 6;
   
   return {
     value: dba,
     confidence: "approximate",
+    range: { min: dba - NC_DBA_UNCERTAINTY, max: dba + NC_DBA_UNCERTAINTY },
     notes: "NC to dBA approximation (NC + 6). Actual difference varies with spectrum shape.",
   };
 }
 
 /**
  * Convert dBA to approximate NC
+ * Pass an equipment type to use its spectrum template.
  */
-export function dbaToNC(dba: number): ConversionResult {
+export function dbaToNC(dba: number, equipmentType?: EquipmentType): ConversionResult {
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForDBA(equipmentType, dba), measureNC, 1);
+  }
+  
   const nc = dba - 6;
   
   return {
     value: Math.round(nc),
     confidence: "approximate",
+    range: { min: Math.round(nc - NC_DBA_UNCERTAINTY), max: Math.round(nc + NC_DBA_UNCERTAINTY) },
     notes: "dBA to NC approximation (dBA - 6). Actual NC requires octave band analysis.",
   };
 }
 
 /**
  * Calculate NC rating from octave band data
+ * Uses the ANSI S12.2 tangency method, interpolated between NC curves
  */
 export function octaveBandsToNC(octaveBands: OctaveBandData): ConversionResult {
-  const ncRating = calculateNCRating(octaveBands);
+  const tangency = calculateNCTangency(octaveBands);
+  
+  return {
+    value: tangency.rating,
+    confidence: "exact",
+    notes: `NC determined by tangency to interpolated NC curves. Controlled by the ${tangency.controllingFrequency} Hz band.`,
+  };
+}
+
+/**
+ * Calculate NCB rating from octave band data
+ * Use calculateNCBRating() for the SIL and rumble/hiss flags
+ */
+export function octaveBandsToNCB(octaveBands: OctaveBandData): ConversionResult {
+  const ncb = calculateNCBRating(octaveBands);
+  
+  return {
+    value: ncb.rating,
+    confidence: "exact",
+    notes: `${formatNCBRating(ncb)}. SIL ${ncb.sil} dB; rumble and hiss checked against the NCB-SIL curve.`,
+  };
+}
+
+/**
+ * Calculate RNC rating from octave band data
+ * Assumes steady noise: the ANSI S12.2 fluctuation correction needs
+ * time-sampled band levels
+ */
+export function octaveBandsToRNC(octaveBands: OctaveBandData): ConversionResult {
+  const rnc = calculateRNCRating(octaveBands);
+  
+  return {
+    value: rnc.rating,
+    confidence: "approximate",
+    notes: `RNC by tangency assuming steady noise (no fluctuation correction). Controlled by the ${rnc.controllingFrequency} Hz band.`,
+  };
+}
+
+/**
+ * Calculate ISO NR (Noise Rating) from octave band data
+ * Uses the tangency method, like octaveBandsToNC
+ */
+export function octaveBandsToNR(octaveBands: OctaveBandData): ConversionResult {
+  const nr = calculateNRRating(octaveBands);
   
   return {
-    value: ncRating,
+    value: nr.rating,
     confidence: "exact",
-    notes: "NC determined by comparing octave band levels to standard NC curves.",
+    notes: `NR determined by tangency to ISO NR curves. Controlled by the ${nr.controllingFrequency} Hz band.`,
+  };
+}
+
+/**
+ * Calculate RC Mark II rating from octave band data
+ * Use calculateRCRating() for the full spectral quality breakdown
+ */
+export function octaveBandsToRC(octaveBands: OctaveBandData): ConversionResult {
+  const rc = calculateRCRating(octaveBands);
+  
+  return {
+    value: rc.rating,
+    confidence: "exact",
+    notes: `${formatRCRating(rc)} - ${RC_QUALITY_LABELS[rc.quality]}, QAI ${rc.qai} dB (${rc.assessment}).`,
   };
 }
 
 /**
  * Convert NC rating to approximate sones
- * Uses NC → dBA → Sones conversion chain
+ * Uses NC → dBA → Sones conversion chain, or the loudness of the equipment
+ * type's spectrum template when given
  */
-export function ncToSones(nc: number): ConversionResult {
+export function ncToSones(nc: number, equipmentType?: EquipmentType): ConversionResult {
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForNC(equipmentType, nc), measureSones, 100);
+  }
+  
   const dbaResult = ncToDBA(nc);
   const sonesResult = dbaToSones(dbaResult.value);
   
   return {
     value: sonesResult.value,
     confidence: "estimated",
+    range: chainRange(dbaResult, dbaToSones),
     notes: "Estimated via NC → dBA → Sones. Significant uncertainty.",
   };
 }
 
 /**
  * Convert sones to approximate NC
- * Uses Sones → dBA → NC conversion chain
+ * Uses Sones → dBA → NC conversion chain, or the equipment type's spectrum
+ * template when given
  */
-export function sonesToNC(sones: number): ConversionResult {
+export function sonesToNC(sones: number, equipmentType?: EquipmentType): ConversionResult {
+  if (equipmentType) {
+    return templateEstimate(equipmentType, templateLevelForSones(equipmentType, sones), measureNC, 1);
+  }
+  
   const dbaResult = sonesToDBA(sones);
   const ncResult = dbaToNC(dbaResult.value);
   
   return {
     value: ncResult.value,
     confidence: "estimated",
+    range: chainRange(dbaResult, dbaToNC),
     notes: "Estimated via Sones → dBA → NC. Significant uncertainty.",
   };
 }
 
+/**
+ * Estimate an octave band spectrum from a single-number rating
+ * Scales the equipment type's spectrum template to match the NC, dBA or
+ * sones value (used in that order). Returns undefined when none is given.
+ * The result is indicative only: it has the template's shape, not the
+ * equipment's.
+ */
+export function estimateOctaveBands(
+  measurement: Pick<SoundMeasurement, "nc" | "dba" | "sones">,
+  equipmentType: EquipmentType
+): OctaveBandData | undefined {
+  let level: number;
+  if (measurement.nc !== undefined) {
+    level = templateLevelForNC(equipmentType, measurement.nc);
+  } else if (measurement.dba !== undefined) {
+    level = templateLevelForDBA(equipmentType, measurement.dba);
+  } else if (measurement.sones !== undefined) {
+    level = templateLevelForSones(equipmentType, measurement.sones);
+  } else {
+    return undefined;
+  }
+  
+  const spectrum = getTemplateSpectrum(equipmentType, level);
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    spectrum[freq] = Math.round(spectrum[freq] * 10) / 10;
+  }
+  return spectrum;
+}
+
 /**
  * Get the octave band values for a given NC rating
+ * Returns the NC curve itself, or the estimated spectrum for an equipment type
  */
-export function ncToOctaveBands(nc: number): OctaveBandData {
-  return interpolateNCCurve(nc);
+export function ncToOctaveBands(nc: number, equipmentType?: EquipmentType): OctaveBandData {
+  return (equipmentType && estimateOctaveBands({ nc }, equipmentType)) || interpolateNCCurve(nc);
 }
 
 /**
- * Convert octave band data to approximate sones
- * Uses octave bands → dBA → sones chain
+ * Calculate sones from octave band data
+ * Uses the Stevens Mark VI (ISO 532 Method A) octave-band loudness method,
+ * which accounts for spectrum shape and tonal peaks
  */
 export function octaveBandsToSones(octaveBands: OctaveBandData): ConversionResult {
-  const dbaResult = octaveBandsToDBA(octaveBands);
-  const sonesResult = dbaToSones(dbaResult.value);
+  const loudness = calculateStevensLoudness(octaveBands);
+  const allBands = loudness.bandCount === OCTAVE_BAND_FREQUENCIES.length;
   
   return {
-    value: sonesResult.value,
-    confidence: "approximate",
-    notes: "Calculated via octave bands → dBA → sones.",
+    value: loudness.sones,
+    confidence: allBands ? "exact" : "approximate",
+    notes: allBands
+      ? `Stevens Mark VI octave-band loudness (${loudness.phons} phons). Loudest band: ${loudness.loudestFrequency} Hz.`
+      : `Stevens Mark VI loudness from ${loudness.bandCount} of ${OCTAVE_BAND_FREQUENCIES.length} bands; missing bands understate loudness. Loudest band: ${loudness.loudestFrequency} Hz.`,
   };
 }
 
 /**
  * Complete sound measurement conversion
- * Takes any input and calculates all other representations
+ * Takes any input and calculates all other representations. An equipment
+ * type hint picks the spectrum template for single-number inputs.
  */
-export function convertSoundMeasurement(input: Partial<SoundMeasurement>): SoundMeasurement {
+export function convertSoundMeasurement(
+  input: Partial<SoundMeasurement>,
+  options: ConversionOptions = {}
+): SoundMeasurement {
+  const { equipmentType } = options;
   const result: SoundMeasurement = {
     source: "calculated",
   };
   
+  // One-third octave data is summed to octave bands and rated from those
+  if (input.thirdOctaveBands) {
+    result.thirdOctaveBands = input.thirdOctaveBands;
+    if (!input.octaveBands) {
+      input = { ...input, octaveBands: thirdOctaveToOctaveBands(input.thirdOctaveBands) };
+    }
+  }
+  
   // If octave bands provided, use them as the most accurate source
   if (input.octaveBands) {
     result.octaveBands = input.octaveBands;
-    result.nc = octaveBandsToNC(input.octaveBands).value;
+    const tangency = calculateNCTangency(input.octaveBands);
+    result.nc = tangency.rating;
+    result.ncControllingFrequency = tangency.controllingFrequency;
+    result.ncb = calculateNCBRating(input.octaveBands);
+    result.rnc = calculateRNCRating(input.octaveBands).rating;
+    result.nr = calculateNRRating(input.octaveBands).rating;
     result.dba = octaveBandsToDBA(input.octaveBands).value;
-    result.sones = octaveBandsToSones(input.octaveBands).value;
+    result.dbc = octaveBandsToDBC(input.octaveBands).value;
+    result.dbz = octaveBandsToDBZ(input.octaveBands).value;
+    const loudness = calculateStevensLoudness(input.octaveBands);
+    result.sones = loudness.sones;
+    result.loudestBand = loudness.loudestFrequency;
+    result.rc = calculateRCRating(input.octaveBands);
   }
   // If NC provided
   else if (input.nc !== undefined) {
+    const dba = ncToDBA(input.nc, equipmentType);
+    const sones = ncToSones(input.nc, equipmentType);
     result.nc = input.nc;
-    result.dba = ncToDBA(input.nc).value;
-    result.sones = ncToSones(input.nc).value;
-    result.octaveBands = ncToOctaveBands(input.nc);
+    result.dba = dba.value;
+    result.sones = sones.value;
+    result.octaveBands = ncToOctaveBands(input.nc, equipmentType);
+    result.ranges = { dba: dba.range, sones: sones.range };
   }
   // If dBA provided
   else if (input.dba !== undefined) {
+    const nc = dbaToNC(input.dba, equipmentType);
+    const sones = dbaToSones(input.dba, equipmentType);
     result.dba = input.dba;
-    result.nc = dbaToNC(input.dba).value;
-    result.sones = dbaToSones(input.dba).value;
-    // Can't accurately derive octave bands from dBA alone
+    result.nc = nc.value;
+    result.sones = sones.value;
+    result.ranges = { nc: nc.range, sones: sones.range };
+    if (equipmentType) {
+      result.octaveBands = estimateOctaveBands({ dba: input.dba }, equipmentType);
+    }
   }
   // If sones provided
   else if (input.sones !== undefined) {
+    const dba = sonesToDBA(input.sones, equipmentType);
+    const nc = sonesToNC(input.sones, equipmentType);
     result.sones = input.sones;
-    result.dba = sonesToDBA(input.sones).value;
-    result.nc = sonesToNC(input.sones).value;
-    // Can't accurately derive octave bands from sones alone
+    result.dba = dba.value;
+    result.nc = nc.value;
+    result.ranges = { dba: dba.range, nc: nc.range };
+    if (equipmentType) {
+      result.octaveBands = estimateOctaveBands({ sones: input.sones }, equipmentType);
+    }
+  }
+  
+  // Octave bands from a spectrum template are an estimate, not data
+  if (equipmentType && !input.octaveBands) {
+    result.equipmentType = equipmentType;
+    if (result.octaveBands) {
+      result.source = "estimated";
+    }
   }
   
   return result;
@@ -262,8 +650,14 @@ export function formatSoundValue(value: number, unit: string, precision: number
       return `${formattedValue} sones`;
     case "nc":
       return `NC-${Math.round(value)}`;
+    case "nr":
+      return `NR-${Math.round(value)}`;
     case "dba":
       return `${formattedValue} dBA`;
+    case "dbc":
+      return `${formattedValue} dBC`;
+    case "dbz":
+      return `${formattedValue} dBZ`;
     default:
       return `${formattedValue} ${unit}`;
   }
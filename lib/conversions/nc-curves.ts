@@ -4,14 +4,21 @@
  * Standard NC curves define maximum acceptable sound pressure levels
  * at each octave band frequency for a given NC rating.
  * 
- * Source: ASHRAE Handbook - HVAC Applications
+ * Source: ASHRAE Handbook - HVAC Applications; 31.5 Hz values from ANSI S12.2-2008
  */
 
-import { NCCurve, OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "./types";
+import {
+  ExtendedOctaveBandFrequency,
+  NCCurve,
+  OctaveBandData,
+  TangencyRating,
+  OCTAVE_BAND_FREQUENCIES,
+} from "./types";
+import { hasBand } from "./bands";
 
 // Standard NC curve values (dB) for each rating
 // Format: { rating: { 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz } }
-export const NC_CURVES: NCCurve[] = [
+const NC_CURVES_OCTAVE: NCCurve[] = [
   { rating: 15, values: { 63: 47, 125: 36, 250: 29, 500: 22, 1000: 17, 2000: 14, 4000: 12, 8000: 11 } },
   { rating: 20, values: { 63: 51, 125: 40, 250: 33, 500: 26, 1000: 22, 2000: 19, 4000: 17, 8000: 16 } },
   { rating: 25, values: { 63: 54, 125: 44, 250: 37, 500: 31, 1000: 27, 2000: 24, 4000: 22, 8000: 21 } },
@@ -26,6 +33,17 @@ export const NC_CURVES: NCCurve[] = [
   { rating: 70, values: { 63: 83, 125: 79, 250: 75, 500: 72, 1000: 71, 2000: 70, 4000: 69, 8000: 68 } },
 ];
 
+// NC curve values (dB) at 31.5 Hz for each rating
+const NC_31_5_HZ: Record<number, number> = {
+  15: 61, 20: 63, 25: 65, 30: 68, 35: 71, 40: 74, 45: 76, 50: 79, 55: 82, 60: 85, 65: 88, 70: 90,
+};
+
+// Standard NC curves including the 31.5 Hz band
+export const NC_CURVES: NCCurve[] = NC_CURVES_OCTAVE.map((curve) => ({
+  rating: curve.rating,
+  values: { 31.5: NC_31_5_HZ[curve.rating], ...curve.values },
+}));
+
 /**
  * Get the NC curve for a specific rating
  */
@@ -34,19 +52,33 @@ export function getNCCurve(rating: number): NCCurve | undefined {
 }
 
 /**
- * Interpolate NC curve values for non-standard ratings (e.g., NC-32)
+ * Get the bands to rate: 63 Hz - 8 kHz, plus any optional band (31.5 Hz,
+ * 16 kHz) that is both measured and defined by every curve in the family
  */
-export function interpolateNCCurve(rating: number): OctaveBandData {
+function getRatedFrequencies(octaveBands: OctaveBandData, curves: NCCurve[]): ExtendedOctaveBandFrequency[] {
+  const optional = ([31.5, 16000] as const).filter(
+    (freq) => hasBand(octaveBands, freq) && curves.every((curve) => curve.values[freq] !== undefined)
+  );
+  return [...optional, ...OCTAVE_BAND_FREQUENCIES].sort((a, b) => a - b);
+}
+
+/**
+ * Interpolate a curve from any criterion curve family (NC, NCB, RNC)
+ * Ratings outside the family's range are clamped to the nearest curve.
+ * Optional bands (31.5 Hz) are included when both curves define them.
+ * Curves must be sorted by ascending rating.
+ */
+export function interpolateCriterionCurve(curves: NCCurve[], rating: number): OctaveBandData {
   // Clamp to valid range
-  const clampedRating = Math.max(15, Math.min(70, rating));
+  const clampedRating = Math.max(curves[0].rating, Math.min(curves[curves.length - 1].rating, rating));
   
   // Find surrounding curves
-  const lowerCurve = NC_CURVES.filter((c) => c.rating <= clampedRating).pop();
-  const upperCurve = NC_CURVES.find((c) => c.rating >= clampedRating);
+  const lowerCurve = curves.filter((c) => c.rating <= clampedRating).pop();
+  const upperCurve = curves.find((c) => c.rating >= clampedRating);
   
   if (!lowerCurve || !upperCurve) {
     // Fallback to closest curve
-    const closest = NC_CURVES.reduce((prev, curr) =>
+    const closest = curves.reduce((prev, curr) =>
       Math.abs(curr.rating - clampedRating) < Math.abs(prev.rating - clampedRating) ? curr : prev
     );
     return { ...closest.values };
@@ -64,39 +96,118 @@ export function interpolateNCCurve(rating: number): OctaveBandData {
   };
   
   for (const freq of OCTAVE_BAND_FREQUENCIES) {
-    result[freq] = Math.round(
-      lowerCurve.values[freq] + t * (upperCurve.values[freq] - lowerCurve.values[freq])
-    );
+    result[freq] = lowerCurve.values[freq] + t * (upperCurve.values[freq] - lowerCurve.values[freq]);
+  }
+  
+  const lower31 = lowerCurve.values[31.5];
+  const upper31 = upperCurve.values[31.5];
+  if (lower31 !== undefined && upper31 !== undefined) {
+    result[31.5] = lower31 + t * (upper31 - lower31);
   }
   
   return result;
 }
 
 /**
- * Determine NC rating from octave band data
- * NC rating is the LOWEST NC curve that CONTAINS all octave band values
- * (i.e., all data points are at or below the NC curve values)
+ * Interpolate NC curve values for non-standard ratings (e.g., NC-32)
  */
-export function calculateNCRating(octaveBands: OctaveBandData): number {
-  for (const curve of NC_CURVES) {
-    let allContained = true;
-    
-    for (const freq of OCTAVE_BAND_FREQUENCIES) {
-      if (octaveBands[freq] > curve.values[freq]) {
-        allContained = false;
-        break;
-      }
+export function interpolateNCCurve(rating: number): OctaveBandData {
+  const result = interpolateCriterionCurve(NC_CURVES, rating);
+  
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    result[freq] = Math.round(result[freq]);
+  }
+  if (result[31.5] !== undefined) {
+    result[31.5] = Math.round(result[31.5]);
+  }
+  
+  return result;
+}
+
+/**
+ * Find the curve number that passes through a level at one frequency
+ * Interpolates linearly between adjacent curves and clamps to the curve range
+ */
+function bandTangencyRating(level: number, freq: ExtendedOctaveBandFrequency, curves: NCCurve[]): number {
+  const curveLevels = curves.map((curve) => curve.values[freq] ?? 0);
+  const last = curves.length - 1;
+  
+  if (level <= curveLevels[0]) return curves[0].rating;
+  if (level >= curveLevels[last]) return curves[last].rating;
+  
+  for (let i = 1; i < curves.length; i++) {
+    if (level <= curveLevels[i]) {
+      const span = curveLevels[i] - curveLevels[i - 1];
+      const t = span > 0 ? (level - curveLevels[i - 1]) / span : 1;
+      return curves[i - 1].rating + t * (curves[i].rating - curves[i - 1].rating);
     }
+  }
+  
+  return curves[last].rating;
+}
+
+/**
+ * Rate octave band data against a family of criterion curves using the
+ * tangency method (ANSI S12.2): each band is assigned the interpolated curve
+ * number passing through its level, and the highest band sets the rating.
+ * The 31.5 Hz band is rated when measured and the curve family defines it.
+ * Curves must be sorted by ascending rating.
+ */
+export function calculateTangencyRating(octaveBands: OctaveBandData, curves: NCCurve[]): TangencyRating {
+  const bandRatings = {} as OctaveBandData;
+  let controllingFrequency: ExtendedOctaveBandFrequency = OCTAVE_BAND_FREQUENCIES[0];
+  let maxRating = -Infinity;
+  
+  for (const freq of getRatedFrequencies(octaveBands, curves)) {
+    const bandRating = bandTangencyRating(octaveBands[freq] ?? 0, freq, curves);
+    bandRatings[freq] = Math.round(bandRating * 10) / 10;
     
-    if (allContained) {
-      // This is the lowest NC curve that contains all data
-      return curve.rating;
+    if (bandRating > maxRating) {
+      maxRating = bandRating;
+      controllingFrequency = freq;
     }
   }
   
-  // If exceeds all curves, return the highest (70)
-  // Use exceedsNC70() to check if data exceeds the scale
-  return 70;
+  return {
+    rating: Math.round(maxRating),
+    exactRating: Math.round(maxRating * 10) / 10,
+    controllingFrequency,
+    bandRatings,
+  };
+}
+
+/**
+ * Calculate the interpolated NC rating and controlling band (tangency method)
+ */
+export function calculateNCTangency(octaveBands: OctaveBandData): TangencyRating {
+  return calculateTangencyRating(octaveBands, NC_CURVES);
+}
+
+/**
+ * Determine NC rating from octave band data
+ * Uses the tangency method, so ratings fall between the 5-point curves
+ * (e.g., NC-32). Ratings are limited to the NC-15 to NC-70 range;
+ * use exceedsNC70() to check if data exceeds the scale.
+ */
+export function calculateNCRating(octaveBands: OctaveBandData): number {
+  return calculateNCTangency(octaveBands).rating;
+}
+
+/**
+ * Get the standard NC curves to display around a rating:
+ * the lowest standard curve containing the rating plus its neighbours.
+ * Pass another 5-point curve family (e.g., NR_CURVES) to use its range.
+ */
+export function getNeighborNCCurves(nc: number, curves: NCCurve[] = NC_CURVES): number[] {
+  const minRating = curves[0].rating;
+  const maxRating = curves[curves.length - 1].rating;
+  const containing = Math.max(minRating, Math.min(maxRating, Math.ceil(nc / 5) * 5));
+  
+  return [
+    Math.max(minRating, containing - 5),
+    containing,
+    Math.min(maxRating, containing + 5),
+  ].filter((v, i, a) => a.indexOf(v) === i); // Remove duplicates
 }
 
 /**
@@ -107,8 +218,8 @@ export function exceedsNC70(octaveBands: OctaveBandData): boolean {
   const nc70 = NC_CURVES.find(c => c.rating === 70);
   if (!nc70) return false;
   
-  for (const freq of OCTAVE_BAND_FREQUENCIES) {
-    if (octaveBands[freq] > nc70.values[freq]) {
+  for (const freq of getRatedFrequencies(octaveBands, [nc70])) {
+    if ((octaveBands[freq] ?? 0) > (nc70.values[freq] ?? 0)) {
       return true;
     }
   }
@@ -127,8 +238,8 @@ export function getNC70Excess(octaveBands: OctaveBandData): OctaveBandData {
   
   const excess: OctaveBandData = { 63: 0, 125: 0, 250: 0, 500: 0, 1000: 0, 2000: 0, 4000: 0, 8000: 0 };
   
-  for (const freq of OCTAVE_BAND_FREQUENCIES) {
-    const diff = octaveBands[freq] - nc70.values[freq];
+  for (const freq of getRatedFrequencies(octaveBands, [nc70])) {
+    const diff = (octaveBands[freq] ?? 0) - (nc70.values[freq] ?? 0);
     excess[freq] = diff > 0 ? diff : 0;
   }
   
@@ -0,0 +1,94 @@
+/**
+ * NCB (Balanced Noise Criteria) Curves
+ *
+ * Beranek's NCB curves tighten the high-frequency end of the NC curves and
+ * pair the rating with rumble and hiss checks against the speech interference
+ * level (SIL), so unbalanced HVAC spectra are flagged even when the NCB number
+ * itself looks acceptable. Below 250 Hz, down to 31.5 Hz, the NCB curves
+ * follow the NC curves.
+ *
+ * Source: Beranek, "Balanced noise criterion (NCB) curves", JASA 86 (1989);
+ * ANSI S12.2-1995
+ */
+
+import { ExtendedOctaveBandFrequency, NCBRating, NCCurve, OctaveBandData } from "./types";
+import { hasBand } from "./bands";
+import { calculateTangencyRating, interpolateCriterionCurve } from "./nc-curves";
+
+// Standard NCB curve values (dB) for each rating
+// Format: { rating: { 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz } }
+const NCB_CURVES_OCTAVE: NCCurve[] = [
+  { rating: 10, values: { 63: 43, 125: 32, 250: 25, 500: 18, 1000: 11, 2000: 7, 4000: 3, 8000: 0 } },
+  { rating: 15, values: { 63: 47, 125: 36, 250: 29, 500: 22, 1000: 16, 2000: 12, 4000: 8, 8000: 5 } },
+  { rating: 20, values: { 63: 51, 125: 40, 250: 33, 500: 26, 1000: 21, 2000: 17, 4000: 13, 8000: 10 } },
+  { rating: 25, values: { 63: 54, 125: 44, 250: 37, 500: 31, 1000: 26, 2000: 22, 4000: 18, 8000: 15 } },
+  { rating: 30, values: { 63: 57, 125: 48, 250: 41, 500: 35, 1000: 30, 2000: 27, 4000: 24, 8000: 21 } },
+  { rating: 35, values: { 63: 60, 125: 52, 250: 45, 500: 40, 1000: 35, 2000: 32, 4000: 29, 8000: 26 } },
+  { rating: 40, values: { 63: 64, 125: 56, 250: 50, 500: 45, 1000: 40, 2000: 37, 4000: 34, 8000: 31 } },
+  { rating: 45, values: { 63: 67, 125: 60, 250: 54, 500: 49, 1000: 45, 2000: 42, 4000: 39, 8000: 36 } },
+  { rating: 50, values: { 63: 71, 125: 64, 250: 58, 500: 54, 1000: 50, 2000: 47, 4000: 44, 8000: 41 } },
+  { rating: 55, values: { 63: 74, 125: 67, 250: 62, 500: 58, 1000: 55, 2000: 52, 4000: 49, 8000: 46 } },
+  { rating: 60, values: { 63: 77, 125: 71, 250: 67, 500: 63, 1000: 60, 2000: 57, 4000: 54, 8000: 51 } },
+  { rating: 65, values: { 63: 80, 125: 75, 250: 71, 500: 68, 1000: 65, 2000: 62, 4000: 59, 8000: 56 } },
+];
+
+// NCB curve values (dB) at 31.5 Hz for each rating
+const NCB_31_5_HZ: Record<number, number> = {
+  10: 59, 15: 61, 20: 63, 25: 65, 30: 68, 35: 71, 40: 74, 45: 76, 50: 79, 55: 82, 60: 85, 65: 88,
+};
+
+// Standard NCB curves including the 31.5 Hz band
+export const NCB_CURVES: NCCurve[] = NCB_CURVES_OCTAVE.map((curve) => ({
+  rating: curve.rating,
+  values: { 31.5: NCB_31_5_HZ[curve.rating], ...curve.values },
+}));
+
+// Bands checked for rumble (500 Hz and below, plus 31.5 Hz when measured) and hiss (1 kHz and above)
+const RUMBLE_FREQUENCIES = [63, 125, 250, 500] as const;
+const HISS_FREQUENCIES = [1000, 2000, 4000, 8000] as const;
+
+// Allowed excess over the SIL curve before rumble or hiss is flagged (dB)
+const BALANCE_TOLERANCE = 3;
+
+/**
+ * Speech interference level: arithmetic mean of the 500 Hz - 4 kHz bands
+ */
+export function calculateSIL(octaveBands: OctaveBandData): number {
+  const sil = (octaveBands[500] + octaveBands[1000] + octaveBands[2000] + octaveBands[4000]) / 4;
+  return Math.round(sil * 10) / 10;
+}
+
+/**
+ * Calculate the NCB rating from octave band data
+ *
+ * The rating is the tangency rating against the NCB curves. The spectrum is
+ * then compared to the NCB curve numbered by its SIL:
+ * - rumble: any band at 500 Hz or below (31.5 Hz when measured) exceeds that
+ *   curve by more than 3 dB
+ * - hiss: any band at 1 kHz or above exceeds that curve by more than 3 dB
+ */
+export function calculateNCBRating(octaveBands: OctaveBandData): NCBRating {
+  const tangency = calculateTangencyRating(octaveBands, NCB_CURVES);
+  const sil = calculateSIL(octaveBands);
+  const silCurve = interpolateCriterionCurve(NCB_CURVES, sil);
+
+  const exceedsSILCurve = (freq: ExtendedOctaveBandFrequency) =>
+    (octaveBands[freq] ?? 0) - (silCurve[freq] ?? 0) > BALANCE_TOLERANCE;
+  const rumbleFrequencies = hasBand(octaveBands, 31.5) ? [31.5, ...RUMBLE_FREQUENCIES] as const : RUMBLE_FREQUENCIES;
+
+  return {
+    rating: tangency.rating,
+    controllingFrequency: tangency.controllingFrequency,
+    sil,
+    rumble: rumbleFrequencies.some(exceedsSILCurve),
+    hiss: HISS_FREQUENCIES.some(exceedsSILCurve),
+  };
+}
+
+/**
+ * Format an NCB rating for display (e.g., "NCB-35 (Rumble)")
+ */
+export function formatNCBRating(ncb: NCBRating): string {
+  const flags = [ncb.rumble && "Rumble", ncb.hiss && "Hiss"].filter(Boolean);
+  return flags.length > 0 ? `NCB-${ncb.rating} (${flags.join(", ")})` : `NCB-${ncb.rating}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * NR (Noise Rating) Curves
+ *
+ * ISO Noise Rating curves are used instead of NC on most European and
+ * Middle East projects. Each curve is defined by L = a + b × NR at every
+ * octave band, so curves for any rating can be generated exactly.
+ *
+ * Source: ISO R1996 (1971); BS 8233 / CIBSE Guide A
+ */
+
+import { NCCurve, OctaveBandData, OctaveBandFrequency, TangencyRating, OCTAVE_BAND_FREQUENCIES } from "./types";
+import { calculateTangencyRating } from "./nc-curves";
+
+// NR curve coefficients: L = a + b × NR
+// Format: { frequency: { a, b } }
+export const NR_COEFFICIENTS: Record<OctaveBandFrequency | 31.5, { a: number; b: number }> = {
+  31.5: { a: 55.4, b: 0.681 },
+  63: { a: 35.5, b: 0.79 },
+  125: { a: 22.0, b: 0.87 },
+  250: { a: 12.0, b: 0.93 },
+  500: { a: 4.8, b: 0.974 },
+  1000: { a: 0, b: 1.0 },
+  2000: { a: -3.5, b: 1.015 },
+  4000: { a: -6.1, b: 1.025 },
+  8000: { a: -8.0, b: 1.03 },
+};
+
+/**
+ * Get the NR curve values (dB) for any rating, 31.5 Hz - 8 kHz
+ */
+export function getNRCurveValues(rating: number): OctaveBandData {
+  const values = {} as OctaveBandData;
+
+  for (const freq of [31.5, ...OCTAVE_BAND_FREQUENCIES] as const) {
+    const { a, b } = NR_COEFFICIENTS[freq];
+    values[freq] = Math.round((a + b * rating) * 10) / 10;
+  }
+
+  return values;
+}
+
+// Standard NR curves from NR-0 to NR-130 in 5-point steps
+export const NR_CURVES: NCCurve[] = Array.from({ length: 27 }, (_, i) => ({
+  rating: i * 5,
+  values: getNRCurveValues(i * 5),
+}));
+
+/**
+ * Calculate the NR rating from octave band data (tangency method)
+ * NR curves are linear in rating, so interpolating between the 5-point
+ * curves gives the exact NR at each band.
+ */
+export function calculateNRRating(octaveBands: OctaveBandData): TangencyRating {
+  return calculateTangencyRating(octaveBands, NR_CURVES);
+}
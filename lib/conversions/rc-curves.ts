@@ -0,0 +1,158 @@
+/**
+ * RC Mark II (Room Criteria) Rating
+ *
+ * RC Mark II rates a room spectrum by its speech-frequency level (the RC number)
+ * and by how far the low, mid and high frequency regions deviate from a neutral
+ * reference curve with a -5 dB/octave slope. When the 31.5 Hz band is measured,
+ * strong low-frequency levels are also flagged for perceptible vibration.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Blazier RC Mark II)
+ */
+
+import { OctaveBandData, RCRating, RCSpectralQuality } from "./types";
+import { hasBand } from "./bands";
+
+// Frequency regions used for the spectral deviation analysis
+// Format: { region: [frequencies] }
+export const RC_REGIONS = {
+  lf: [31.5, 63],
+  mf: [125, 250, 500],
+  hf: [1000, 2000, 4000],
+} as const;
+
+// Octave bands covered by the RC reference curves (RC Mark II stops at 4 kHz)
+const RC_FREQUENCIES = [31.5, 63, 125, 250, 500, 1000, 2000, 4000] as const;
+
+// Reference curve slope (dB per octave)
+const RC_SLOPE = -5;
+
+// 31.5 Hz levels (dB) above which vibration in lightweight construction is
+// clearly perceptible (region A) or moderately perceptible (region B)
+const VIBRATION_REGION_A = 75;
+const VIBRATION_REGION_B = 65;
+
+// Display labels for each spectral quality descriptor
+export const RC_QUALITY_LABELS: Record<RCSpectralQuality, string> = {
+  N: "Neutral",
+  LF: "Rumble",
+  LFVA: "Rumble, clearly perceptible vibration",
+  LFVB: "Rumble, moderately perceptible vibration",
+  MF: "Roar",
+  HF: "Hiss",
+};
+
+/**
+ * Get the RC reference curve for a given RC number
+ * The curve passes through the RC number at 1 kHz with a -5 dB/octave slope.
+ * Bands outside the RC Mark II range (8 kHz) are omitted.
+ */
+export function getRCReferenceCurve(rating: number): Partial<OctaveBandData> {
+  const curve: Partial<OctaveBandData> = {};
+
+  for (const freq of RC_FREQUENCIES) {
+    curve[freq] = rating + RC_SLOPE * Math.log2(freq / 1000);
+  }
+
+  return curve;
+}
+
+/**
+ * Energy-average the deviation from the reference curve over a frequency region
+ * Bands without data (an unmeasured 31.5 Hz band) are left out of the average.
+ * Returns undefined when no band in the region has data, e.g. an AHRI 885
+ * room spectrum with the 63 Hz band at 0.
+ */
+function regionDeviation(
+  octaveBands: OctaveBandData,
+  reference: Partial<OctaveBandData>,
+  frequencies: readonly (keyof OctaveBandData)[]
+): number | undefined {
+  const measured = frequencies.filter((freq) => hasBand(octaveBands, freq));
+  if (measured.length === 0) return undefined;
+
+  let sum = 0;
+
+  for (const freq of measured) {
+    const deviation = (octaveBands[freq] ?? 0) - (reference[freq] ?? 0);
+    sum += Math.pow(10, deviation / 10);
+  }
+
+  return 10 * Math.log10(sum / measured.length);
+}
+
+const roundDeviation = (deviation: number | undefined) =>
+  deviation !== undefined ? Math.round(deviation * 10) / 10 : undefined;
+
+/**
+ * Calculate the RC Mark II rating from octave band data
+ *
+ * 1. RC number = arithmetic mean of the 500, 1k and 2k Hz levels
+ * 2. Deviations from the reference curve are energy-averaged per region
+ * 3. QAI = spread between the highest and lowest regional deviation, over
+ *    the regions that have data
+ * 4. QAI ≤ 5 dB is Neutral; otherwise the region with the largest deviation
+ *    sets the quality (LF = Rumble, MF = Roar, HF = Hiss)
+ * 5. Rumble with a 31.5 Hz level in vibration region A or B becomes LFVA or LFVB
+ */
+export function calculateRCRating(octaveBands: OctaveBandData): RCRating {
+  const rating = Math.round((octaveBands[500] + octaveBands[1000] + octaveBands[2000]) / 3);
+  const reference = getRCReferenceCurve(rating);
+
+  const deviations = {
+    lf: regionDeviation(octaveBands, reference, RC_REGIONS.lf),
+    mf: regionDeviation(octaveBands, reference, RC_REGIONS.mf),
+    hf: regionDeviation(octaveBands, reference, RC_REGIONS.hf),
+  };
+
+  const measured = [deviations.lf, deviations.mf, deviations.hf].filter((d): d is number => d !== undefined);
+  const maxDeviation = measured.length > 0 ? Math.max(...measured) : 0;
+  const minDeviation = measured.length > 0 ? Math.min(...measured) : 0;
+  const qai = maxDeviation - minDeviation;
+
+  let quality: RCSpectralQuality = "N";
+  if (qai > 5) {
+    if (maxDeviation === deviations.lf) {
+      quality = "LF";
+      if (hasBand(octaveBands, 31.5)) {
+        const level = octaveBands[31.5] ?? 0;
+        if (level > VIBRATION_REGION_A) {
+          quality = "LFVA";
+        } else if (level > VIBRATION_REGION_B) {
+          quality = "LFVB";
+        }
+      }
+    } else if (maxDeviation === deviations.mf) {
+      quality = "MF";
+    } else {
+      quality = "HF";
+    }
+  }
+
+  let assessment: RCRating["assessment"];
+  if (qai <= 5) {
+    assessment = "acceptable";
+  } else if (qai <= 10) {
+    assessment = "marginal";
+  } else {
+    assessment = "objectionable";
+  }
+
+  return {
+    rating,
+    quality,
+    qai: Math.round(qai * 10) / 10,
+    deviations: {
+      lf: roundDeviation(deviations.lf),
+      mf: roundDeviation(deviations.mf),
+      hf: roundDeviation(deviations.hf),
+    },
+    assessment,
+  };
+}
+
+/**
+ * Format an RC rating for display (e.g., "RC-35(N)")
+ */
+export function formatRCRating(rc: RCRating): string {
+  return `RC-${rc.rating}(${rc.quality})`;
+}
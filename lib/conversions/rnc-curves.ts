@@ -0,0 +1,52 @@
+/**
+ * RNC (Room Noise Criterion) Curves
+ *
+ * RNC curves follow the NC curves from 250 Hz up but continue at a steady
+ * slope below it, down to 31.5 Hz, so low-frequency rumble is not masked by
+ * the flattening of the NC curves.
+ *
+ * Ratings assume steady noise. ANSI S12.2 corrects the 31.5 - 125 Hz bands
+ * for large level fluctuations (surging fans, unstable VAV control) from
+ * time-sampled band levels, which are not available here.
+ *
+ * Source: ANSI S12.2-2008 (Room Noise Criterion curves, after Schomer)
+ */
+
+import { NCCurve, OctaveBandData, TangencyRating } from "./types";
+import { calculateTangencyRating } from "./nc-curves";
+
+// Standard RNC curve values (dB) for each rating
+// Format: { rating: { 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz } }
+const RNC_CURVES_OCTAVE: NCCurve[] = [
+  { rating: 15, values: { 63: 43, 125: 36, 250: 29, 500: 22, 1000: 17, 2000: 14, 4000: 12, 8000: 11 } },
+  { rating: 20, values: { 63: 46, 125: 40, 250: 33, 500: 26, 1000: 22, 2000: 19, 4000: 17, 8000: 16 } },
+  { rating: 25, values: { 63: 50, 125: 43, 250: 37, 500: 31, 1000: 27, 2000: 24, 4000: 22, 8000: 21 } },
+  { rating: 30, values: { 63: 53, 125: 47, 250: 41, 500: 35, 1000: 31, 2000: 29, 4000: 28, 8000: 27 } },
+  { rating: 35, values: { 63: 56, 125: 51, 250: 45, 500: 40, 1000: 36, 2000: 34, 4000: 33, 8000: 32 } },
+  { rating: 40, values: { 63: 60, 125: 55, 250: 50, 500: 45, 1000: 41, 2000: 39, 4000: 38, 8000: 37 } },
+  { rating: 45, values: { 63: 64, 125: 59, 250: 54, 500: 49, 1000: 46, 2000: 44, 4000: 43, 8000: 42 } },
+  { rating: 50, values: { 63: 67, 125: 62, 250: 58, 500: 54, 1000: 51, 2000: 49, 4000: 48, 8000: 47 } },
+  { rating: 55, values: { 63: 70, 125: 66, 250: 62, 500: 58, 1000: 56, 2000: 54, 4000: 53, 8000: 52 } },
+  { rating: 60, values: { 63: 74, 125: 71, 250: 67, 500: 63, 1000: 61, 2000: 59, 4000: 58, 8000: 57 } },
+  { rating: 65, values: { 63: 78, 125: 74, 250: 71, 500: 68, 1000: 66, 2000: 64, 4000: 63, 8000: 62 } },
+  { rating: 70, values: { 63: 81, 125: 78, 250: 75, 500: 72, 1000: 71, 2000: 70, 4000: 69, 8000: 68 } },
+];
+
+// RNC curve values (dB) at 31.5 Hz for each rating
+const RNC_31_5_HZ: Record<number, number> = {
+  15: 50, 20: 52, 25: 57, 30: 59, 35: 61, 40: 65, 45: 69, 50: 72, 55: 74, 60: 77, 65: 82, 70: 84,
+};
+
+// Standard RNC curves including the 31.5 Hz band
+export const RNC_CURVES: NCCurve[] = RNC_CURVES_OCTAVE.map((curve) => ({
+  rating: curve.rating,
+  values: { 31.5: RNC_31_5_HZ[curve.rating], ...curve.values },
+}));
+
+/**
+ * Calculate the RNC rating from octave band data, assuming steady noise
+ * The 31.5 Hz band is rated when measured.
+ */
+export function calculateRNCRating(octaveBands: OctaveBandData): TangencyRating {
+  return calculateTangencyRating(octaveBands, RNC_CURVES);
+}
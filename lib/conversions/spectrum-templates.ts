@@ -0,0 +1,63 @@
+/**
+ * Equipment Spectrum Templates
+ *
+ * Single-number ratings (NC, dBA, sones) weight the spectrum differently, so
+ * the offset between them depends on the spectrum shape: a fan-dominated
+ * spectrum is rated by its low-frequency bands, a diffuser by its mid and
+ * high bands. These typical room spectrum shapes let single-number
+ * conversions use a realistic spectrum instead of a fixed offset.
+ *
+ * Shapes are representative of published manufacturer sound data for each
+ * equipment type; measured octave bands should always be preferred.
+ */
+
+import { EquipmentType, OctaveBandData, SpectrumTemplate, OCTAVE_BAND_FREQUENCIES } from "./types";
+
+// Typical spectrum shapes (dB relative to the loudest band)
+// Format: { 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz }
+export const SPECTRUM_TEMPLATES: Record<EquipmentType, SpectrumTemplate> = {
+  "centrifugal-fan": {
+    label: "Centrifugal Fan",
+    shape: { 63: 0, 125: -3, 250: -8, 500: -13, 1000: -18, 2000: -23, 4000: -28, 8000: -33 },
+    spread: 3,
+  },
+  "axial-fan": {
+    label: "Axial Fan",
+    shape: { 63: 0, 125: 0, 250: -2, 500: -4, 1000: -7, 2000: -11, 4000: -16, 8000: -22 },
+    spread: 4,
+  },
+  "vav-terminal": {
+    label: "VAV Terminal",
+    shape: { 63: -1, 125: 0, 250: -3, 500: -8, 1000: -14, 2000: -20, 4000: -26, 8000: -32 },
+    spread: 3,
+  },
+  diffuser: {
+    label: "Diffuser",
+    shape: { 63: -10, 125: -6, 250: -3, 500: -1, 1000: 0, 2000: -1, 4000: -4, 8000: -9 },
+    spread: 3,
+  },
+  rtu: {
+    label: "Rooftop Unit",
+    shape: { 63: 0, 125: -2, 250: -5, 500: -9, 1000: -13, 2000: -18, 4000: -23, 8000: -29 },
+    spread: 4,
+  },
+  "condensing-unit": {
+    label: "Condensing Unit",
+    shape: { 63: -6, 125: -3, 250: 0, 500: -1, 1000: -3, 2000: -7, 4000: -12, 8000: -18 },
+    spread: 4,
+  },
+};
+
+/**
+ * Get a template spectrum with its loudest band at the given level (dB)
+ */
+export function getTemplateSpectrum(equipmentType: EquipmentType, level: number): OctaveBandData {
+  const { shape } = SPECTRUM_TEMPLATES[equipmentType];
+  const spectrum = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    spectrum[freq] = level + shape[freq];
+  }
+
+  return spectrum;
+}
@@ -0,0 +1,64 @@
+/**
+ * One-Third Octave Band Conversions
+ *
+ * Each full octave band contains three one-third octave bands (the band
+ * itself and its neighbours either side). The octave band level is the
+ * energy sum of those three bands.
+ *
+ * Source: ANSI S1.11 / IEC 61260 (octave-band and fractional-octave-band filters)
+ */
+
+import {
+  ExtendedOctaveBandFrequency,
+  OctaveBandData,
+  ThirdOctaveBandData,
+  ThirdOctaveBandFrequency,
+  OCTAVE_BAND_FREQUENCIES,
+} from "./types";
+import { addDecibels } from "./decibels";
+
+// One-third octave bands that make up each full octave band
+// Format: { octave: [lower, center, upper] }
+export const THIRD_OCTAVES_IN_OCTAVE: Record<Exclude<ExtendedOctaveBandFrequency, 16000>, readonly ThirdOctaveBandFrequency[]> = {
+  31.5: [25, 31.5, 40],
+  63: [50, 63, 80],
+  125: [100, 125, 160],
+  250: [200, 250, 315],
+  500: [400, 500, 630],
+  1000: [800, 1000, 1250],
+  2000: [1600, 2000, 2500],
+  4000: [3150, 4000, 5000],
+  8000: [6300, 8000, 10000],
+};
+
+/**
+ * Energy-sum the measured one-third octave bands in a group
+ * Returns 0 when none of the bands are measured.
+ */
+function sumThirdOctaves(thirdOctaveBands: ThirdOctaveBandData, bands: readonly ThirdOctaveBandFrequency[]): number {
+  const levels = bands
+    .map((band) => thirdOctaveBands[band])
+    .filter((level): level is number => level !== undefined && Number.isFinite(level) && level > 0);
+  return Math.round(addDecibels(levels) * 10) / 10;
+}
+
+/**
+ * Energy-sum one-third octave band data into full octave bands
+ * Bands with no data (0 or missing) are skipped; an octave with no
+ * measured third-octave bands is 0. The optional 31.5 Hz octave is only
+ * set when at least one of its bands (25 - 40 Hz) is measured.
+ */
+export function thirdOctaveToOctaveBands(thirdOctaveBands: ThirdOctaveBandData): OctaveBandData {
+  const octaveBands = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    octaveBands[freq] = sumThirdOctaves(thirdOctaveBands, THIRD_OCTAVES_IN_OCTAVE[freq]);
+  }
+
+  const lowOctave = sumThirdOctaves(thirdOctaveBands, THIRD_OCTAVES_IN_OCTAVE[31.5]);
+  if (lowOctave > 0) {
+    octaveBands[31.5] = lowOctave;
+  }
+
+  return octaveBands;
+}
@@ -6,6 +6,17 @@
 export const OCTAVE_BAND_FREQUENCIES = [63, 125, 250, 500, 1000, 2000, 4000, 8000] as const;
 export type OctaveBandFrequency = (typeof OCTAVE_BAND_FREQUENCIES)[number];
 
+// Full octave band range including the optional 31.5 Hz and 16 kHz bands
+export const EXTENDED_OCTAVE_BAND_FREQUENCIES = [31.5, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000] as const;
+export type ExtendedOctaveBandFrequency = (typeof EXTENDED_OCTAVE_BAND_FREQUENCIES)[number];
+
+// Standard one-third octave band center frequencies (Hz), 25 Hz - 10 kHz
+export const THIRD_OCTAVE_BAND_FREQUENCIES = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000,
+] as const;
+export type ThirdOctaveBandFrequency = (typeof THIRD_OCTAVE_BAND_FREQUENCIES)[number];
+
 // Sound measurement unit types
 export type SoundUnit = "sones" | "nc" | "dba" | "octave";
 
@@ -16,7 +27,9 @@ export interface SoundValue {
 }
 
 // Octave band sound data (dB values at each frequency)
+// 31.5 Hz and 16 kHz are optional: most spec sheets stop at 63 Hz - 8 kHz
 export interface OctaveBandData {
+  31.5?: number;
   63: number;
   125: number;
   250: number;
@@ -25,28 +38,145 @@ export interface OctaveBandData {
   2000: number;
   4000: number;
   8000: number;
+  16000?: number;
 }
 
+// One-third octave band sound data (dB values at each frequency)
+// Bands that are missing or 0 are treated as not measured
+export type ThirdOctaveBandData = Partial<Record<ThirdOctaveBandFrequency, number>>;
+
 // Complete sound measurement that can hold all representations
 export interface SoundMeasurement {
   sones?: number;
+  loudestBand?: OctaveBandFrequency;      // Band with the highest loudness index
   nc?: number;
   dba?: number;
+  dbc?: number;                           // C-weighted overall level
+  dbz?: number;                           // Unweighted (Z-weighted) overall level
   octaveBands?: OctaveBandData;
-  source?: "input" | "calculated";
+  thirdOctaveBands?: ThirdOctaveBandData; // Source data when measured in 1/3 octaves
+  ncControllingFrequency?: ExtendedOctaveBandFrequency;
+  ncb?: NCBRating;
+  rnc?: number;
+  nr?: number;
+  rc?: RCRating;
+  equipmentType?: EquipmentType;          // Spectrum template used for single-number conversions
+  ranges?: {                              // Uncertainty ranges for values converted from a single number
+    nc?: ValueRange;
+    dba?: ValueRange;
+    sones?: ValueRange;
+  };
+  source?: "input" | "calculated" | "estimated";  // "estimated": octave bands from a spectrum template
+}
+
+// Lower and upper bound of an estimated value
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+// Equipment types with a typical spectrum template
+export type EquipmentType =
+  | "centrifugal-fan"
+  | "axial-fan"
+  | "vav-terminal"
+  | "diffuser"
+  | "rtu"
+  | "condensing-unit";
+
+// Typical octave band spectrum shape for an equipment type
+export interface SpectrumTemplate {
+  label: string;
+  shape: OctaveBandData;      // Band levels relative to the loudest band (dB)
+  spread: number;             // Typical deviation of real spectra from the shape (± dB)
 }
 
 // NC (Noise Criteria) curve data
+// Also used for the other criterion curve families (NCB, RNC, NR)
 export interface NCCurve {
   rating: number;
   values: OctaveBandData;
 }
 
+// Octave-band loudness (Stevens Mark VI, ISO 532 Method A)
+export interface LoudnessResult {
+  sones: number;                          // Total loudness
+  phons: number;                          // Loudness level
+  loudestFrequency: OctaveBandFrequency;  // Band with the highest loudness index
+  bandIndices: Partial<OctaveBandData>;   // Loudness index per band (sones)
+  bandCount: number;                      // Number of bands used in the calculation
+}
+
+// Tangency rating against a family of criterion curves (ANSI S12.2)
+export interface TangencyRating {
+  rating: number;                                     // Rounded to the nearest integer
+  exactRating: number;                                // Interpolated between curves (0.1 precision)
+  controllingFrequency: ExtendedOctaveBandFrequency;  // Octave band that sets the rating
+  bandRatings: OctaveBandData;                        // Curve number touched at each band
+}
+
+// NCB (Balanced Noise Criteria) rating with Beranek's rumble and hiss checks
+export interface NCBRating {
+  rating: number;                                     // Tangency rating against NCB curves
+  controllingFrequency: ExtendedOctaveBandFrequency;
+  sil: number;                                        // Speech interference level (500 Hz - 4 kHz mean)
+  rumble: boolean;                                    // Low frequencies exceed the SIL curve
+  hiss: boolean;                                      // High frequencies exceed the SIL curve
+}
+
+// RC Mark II spectral quality descriptor
+// N = Neutral, LF = Rumble, MF = Roar, HF = Hiss
+// LFVA / LFVB = Rumble with clearly / moderately perceptible vibration
+export type RCSpectralQuality = "N" | "LF" | "LFVA" | "LFVB" | "MF" | "HF";
+
+// RC Mark II (Room Criteria) rating
+export interface RCRating {
+  rating: number;                 // RC number (mean of 500, 1k, 2k Hz levels)
+  quality: RCSpectralQuality;     // Spectral quality classification
+  qai: number;                    // Quality Assessment Index (dB)
+  deviations: {                   // Energy-averaged deviation from reference curve (dB), none for regions without data
+    lf?: number;
+    mf?: number;
+    hf?: number;
+  };
+  assessment: "acceptable" | "marginal" | "objectionable";
+}
+
+// Fan operating point: speed (rpm), airflow (CFM), static pressure (in. w.g.)
+export interface FanOperatingPoint {
+  fanSpeed?: number;
+  airflow?: number;
+  staticPressure?: number;
+}
+
+// Fan law relationship used to scale sound power between operating points
+export type FanLawBasis = "speed" | "airflow" | "pressure" | "airflow-pressure";
+
+// Background noise correction of one band of a field measurement
+// uncorrected: more than 10 dB above background (or no background data)
+// corrected:   3 - 10 dB above background
+// invalid:     less than 3 dB above background (level is an upper bound)
+export type BackgroundCorrectionStatus = "uncorrected" | "corrected" | "invalid";
+
+// Field measurement corrected for background noise
+export interface BackgroundCorrectionResult {
+  octaveBands: OctaveBandData;
+  corrections: Partial<Record<ExtendedOctaveBandFrequency, number>>;   // dB subtracted
+  status: Partial<Record<ExtendedOctaveBandFrequency, BackgroundCorrectionStatus>>;
+  invalidBands: ExtendedOctaveBandFrequency[];
+}
+
+// Options for convertSoundMeasurement
+export interface ConversionOptions {
+  equipmentType?: EquipmentType;  // Spectrum template for single-number conversions
+}
+
 // Conversion result with confidence indicator
 export interface ConversionResult {
   value: number;
   confidence: "exact" | "approximate" | "estimated";
   notes?: string;
+  range?: ValueRange;         // Uncertainty bounds for approximate and estimated results
 }
 
 // Parsed document result
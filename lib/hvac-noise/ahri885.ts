@@ -0,0 +1,153 @@
+/**
+ * AHRI 885 Terminal Unit Room Sound Levels
+ *
+ * VAV terminal submittals list discharge and radiated sound power (Lw) at
+ * several inlet pressures. AHRI Standard 885 Appendix E gives default
+ * environmental adjustment factors that turn each Lw row into the sound
+ * pressure in a typical room below:
+ *
+ *   Lp = Lw - adjustment factor   (per octave band, 125 Hz - 4 kHz)
+ *
+ * Discharge factors cover a typical downstream path (lined duct, flex duct,
+ * end reflection, power division and space effect) and depend on terminal
+ * size. Radiated factors cover the ceiling/plenum and space effect and
+ * depend on the ceiling type. AHRI 885 rates bands 2 - 7 only, so 63 Hz and
+ * 8 kHz are 0 in the room spectrum.
+ *
+ * Source: AHRI Standard 885-2008, Appendix E (Typical Sound Attenuation Values)
+ */
+
+import { calculateNCTangency } from "../conversions/nc-curves";
+import { OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { checkCompliance, RoomType } from "../ashrae/room-types";
+import type { ExtractedSoundData } from "../parsing/types";
+import { AHRI885Options, AHRI885Path, AHRI885RowResult, CeilingType, TerminalSize } from "./types";
+
+export const TERMINAL_SIZE_LABELS: Record<TerminalSize, string> = {
+  small: "Small (< 300 CFM)",
+  medium: "Medium (300 - 700 CFM)",
+  large: "Large (> 700 CFM)",
+};
+
+export const AHRI885_PATH_LABELS: Record<AHRI885Path, string> = {
+  discharge: "Discharge",
+  radiated: "Radiated",
+};
+
+// Discharge environmental adjustment factors (dB)
+export const AHRI885_DISCHARGE_ATTENUATION: Record<TerminalSize, OctaveBandData> = {
+  small: { 63: 0, 125: 24, 250: 28, 500: 39, 1000: 53, 2000: 59, 4000: 40, 8000: 0 },
+  medium: { 63: 0, 125: 27, 250: 29, 500: 40, 1000: 51, 2000: 53, 4000: 39, 8000: 0 },
+  large: { 63: 0, 125: 29, 250: 30, 500: 41, 1000: 51, 2000: 52, 4000: 39, 8000: 0 },
+};
+
+// Radiated environmental adjustment factors by ceiling type (dB)
+export const AHRI885_RADIATED_ATTENUATION: Record<CeilingType, OctaveBandData> = {
+  none: { 63: 0, 125: 7, 250: 6, 500: 7, 1000: 8, 2000: 9, 4000: 10, 8000: 0 },
+  "glass-fiber": { 63: 0, 125: 16, 250: 15, 500: 16, 1000: 20, 2000: 24, 4000: 28, 8000: 0 },
+  "mineral-fiber": { 63: 0, 125: 18, 250: 19, 500: 20, 1000: 26, 2000: 31, 4000: 36, 8000: 0 },
+  gypsum: { 63: 0, 125: 22, 250: 25, 500: 28, 1000: 32, 2000: 34, 4000: 36, 8000: 0 },
+};
+
+// Octave bands rated by AHRI 885 (bands 2 - 7)
+const RATED_FREQUENCIES = [125, 250, 500, 1000, 2000, 4000];
+
+/**
+ * AHRI 885 terminal size for an airflow (CFM)
+ */
+export function getTerminalSize(airflow: number): TerminalSize {
+  if (airflow < 300) return "small";
+  if (airflow <= 700) return "medium";
+  return "large";
+}
+
+/**
+ * Environmental adjustment factors for a sound path
+ */
+export function getAHRI885Attenuation(path: AHRI885Path, options: AHRI885Options): OctaveBandData {
+  return path === "discharge"
+    ? AHRI885_DISCHARGE_ATTENUATION[options.terminalSize]
+    : AHRI885_RADIATED_ATTENUATION[options.ceiling];
+}
+
+/**
+ * Room sound pressure from terminal sound power
+ * Bands outside 125 Hz - 4 kHz, and bands with no data, are 0. Ratings treat
+ * 0 as unmeasured: RC Mark II leaves the low-frequency region (63 Hz) out of
+ * the QAI rather than averaging an empty region.
+ */
+export function ahri885RoomSpectrum(soundPower: OctaveBandData, path: AHRI885Path, options: AHRI885Options): OctaveBandData {
+  const attenuation = getAHRI885Attenuation(path, options);
+  const spectrum = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = soundPower[freq] ?? 0;
+    spectrum[freq] = RATED_FREQUENCIES.includes(freq) && level > 0
+      ? Math.max(0, Math.round((level - attenuation[freq]) * 10) / 10)
+      : 0;
+  }
+
+  return spectrum;
+}
+
+/**
+ * Sound path of an extracted submittal row, from its component label
+ * Casing rows are radiated; discharge, outlet and supply rows are discharge.
+ */
+export function classifyAHRI885Path(data: ExtractedSoundData): AHRI885Path | undefined {
+  const label = [data.equipment?.model, data.equipment?.type].filter(Boolean).join(" ");
+  if (/radiat|casing/i.test(label)) return "radiated";
+  if (/discharge|outlet|supply/i.test(label)) return "discharge";
+  return undefined;
+}
+
+/**
+ * Room NC of each extracted sound power row, checked against a room type
+ * Rows without octave bands, rows of sound pressure data and rows whose
+ * path cannot be identified are skipped. Without a terminal size, each row
+ * uses the size for its scheduled airflow (medium when none is listed).
+ */
+export function evaluateAHRI885Rows(
+  rows: ExtractedSoundData[],
+  roomType: RoomType,
+  ceiling: CeilingType,
+  terminalSize?: TerminalSize
+): AHRI885RowResult[] {
+  const results: AHRI885RowResult[] = [];
+
+  for (const row of rows) {
+    const path = classifyAHRI885Path(row);
+    if (!path || !row.octaveBands || row.dataType === "soundPressure") continue;
+
+    const bands = row.octaveBands;
+    const soundPower: OctaveBandData = {
+      63: bands.hz63 ?? 0,
+      125: bands.hz125 ?? 0,
+      250: bands.hz250 ?? 0,
+      500: bands.hz500 ?? 0,
+      1000: bands.hz1000 ?? 0,
+      2000: bands.hz2000 ?? 0,
+      4000: bands.hz4000 ?? 0,
+      8000: bands.hz8000 ?? 0,
+    };
+
+    const airflow = parseFloat(row.conditions?.airflow ?? "");
+    const size = terminalSize ?? (airflow > 0 ? getTerminalSize(airflow) : "medium");
+    const roomSpectrum = ahri885RoomSpectrum(soundPower, path, { terminalSize: size, ceiling });
+    const tangency = calculateNCTangency(roomSpectrum);
+
+    results.push({
+      label: row.equipment?.model || row.equipment?.type || row.source.fileName,
+      path,
+      terminalSize: path === "discharge" ? size : undefined,
+      inletPressure: row.conditions?.staticPressure,
+      airflow: row.conditions?.airflow,
+      roomSpectrum,
+      nc: tangency.rating,
+      controllingFrequency: tangency.controllingFrequency,
+      compliance: checkCompliance(tangency.rating, roomType, tangency.controllingFrequency),
+    });
+  }
+
+  return results;
+}
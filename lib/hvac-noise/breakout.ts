@@ -0,0 +1,173 @@
+/**
+ * Duct Breakout and Break-In Noise
+ *
+ * Sound inside a duct radiates through the duct walls (breakout), and sound
+ * around a duct passes into it (break-in). Breakout from supply ducts in the
+ * ceiling plenum often sets the NC under rooftop units.
+ *
+ * Breakout:  Lw(out) = Lw(in) + 10 log(S/A) - TL(out),  TL(out) ≥ 10 log(S/A)
+ * Break-in:  Lw(in) = Lw(out) - TL(in) - 3   (split between both directions)
+ *
+ * Rectangular duct TL(out), a × b in inches, q = wall mass (lb/ft²):
+ *   f < fL:  TL = 10 log(f q² / (a + b)) + 17
+ *   f ≥ fL:  TL = 20 log(f q) - 31,   fL = 24,134 / √(ab)
+ * Rectangular duct TL(in), f1 = 6764 / a (first cross mode):
+ *   f < f1:  TL = max[TL(out) - 4 - 10 log(a/b) + 20 log(f/f1), 10 log(S/A)]
+ *   f ≥ f1:  TL = max[TL(out) - 3, 10 log(S/A)]
+ * Round ducts are stiff below the ring frequency and use tabulated TL(out).
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); Cummings, "Acoustic noise transmission through duct
+ * walls", ASHRAE Trans. 91 (1985)
+ */
+
+import { OctaveBandData, OctaveBandFrequency, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { soundPowerToPressure } from "./room-effect";
+import { BreakoutDuct, CeilingType, RoomEffectInput, SteelGauge } from "./types";
+
+// Galvanized steel wall mass (lb/ft²) by gauge
+export const STEEL_GAUGE_MASS: Record<SteelGauge, number> = {
+  26: 0.906,
+  24: 1.156,
+  22: 1.406,
+  20: 1.656,
+  18: 2.156,
+  16: 2.656,
+};
+
+// Round long-seam duct TL(out) (dB) at typical gauges
+// Format: [diameter (in), gauge, 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz]
+const ROUND_DUCT_TL: readonly (readonly number[])[] = [
+  [8, 26, 45, 53, 55, 52, 44, 35, 34, 26],
+  [14, 24, 50, 60, 54, 36, 34, 31, 25, 38],
+  [22, 22, 47, 53, 37, 33, 33, 27, 25, 43],
+  [32, 22, 51, 46, 26, 26, 24, 22, 38, 43],
+];
+
+export const CEILING_TYPE_LABELS: Record<CeilingType, string> = {
+  none: "No Ceiling (exposed)",
+  "glass-fiber": "Glass Fiber Tile",
+  "mineral-fiber": "Mineral Fiber Tile",
+  gypsum: "Gypsum Board",
+};
+
+// Ceiling transmission loss including the plenum (dB)
+export const CEILING_TRANSMISSION_LOSS: Record<CeilingType, OctaveBandData> = {
+  none: { 63: 0, 125: 0, 250: 0, 500: 0, 1000: 0, 2000: 0, 4000: 0, 8000: 0 },
+  "glass-fiber": { 63: 4, 125: 4, 250: 5, 500: 7, 1000: 9, 2000: 11, 4000: 12, 8000: 12 },
+  "mineral-fiber": { 63: 13, 125: 16, 250: 18, 500: 20, 1000: 26, 2000: 31, 4000: 36, 8000: 36 },
+  gypsum: { 63: 16, 125: 19, 250: 24, 500: 28, 1000: 30, 2000: 31, 4000: 33, 8000: 33 },
+};
+
+/**
+ * Radiating surface to cross-section area ratio, 10 log(S/A) (dB)
+ */
+function surfaceAreaRatio({ duct, length }: BreakoutDuct): number {
+  if (duct.shape === "round") {
+    // S = π D L, A = π D² / 4 (D in ft)
+    return 10 * Math.log10((4 * length * 12) / duct.width);
+  }
+  // S = 2 (a + b) L, A = a b (a, b in ft)
+  return 10 * Math.log10((2 * (duct.width + duct.height) * length * 12) / (duct.width * duct.height));
+}
+
+/**
+ * Breakout transmission loss TL(out) of a duct wall
+ */
+export function ductTransmissionLoss({ duct, gauge }: Omit<BreakoutDuct, "length">): OctaveBandData {
+  const mass = STEEL_GAUGE_MASS[gauge];
+  const tl = {} as OctaveBandData;
+
+  if (duct.shape === "round") {
+    // Nearest tabulated diameter, shifted by mass law for a different gauge
+    const row = ROUND_DUCT_TL.reduce((best, r) =>
+      Math.abs(r[0] - duct.width) < Math.abs(best[0] - duct.width) ? r : best
+    );
+    const massCorrection = 20 * Math.log10(mass / STEEL_GAUGE_MASS[row[1] as SteelGauge]);
+    OCTAVE_BAND_FREQUENCIES.forEach((freq, i) => {
+      tl[freq] = Math.round((row[i + 2] + massCorrection) * 10) / 10;
+    });
+    return tl;
+  }
+
+  const { width: a, height: b } = duct;
+  const lowFrequencyLimit = 24134 / Math.sqrt(a * b);
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const value = freq < lowFrequencyLimit
+      ? 10 * Math.log10((freq * mass * mass) / (a + b)) + 17
+      : 20 * Math.log10(freq * mass) - 31;
+    tl[freq] = Math.round(value * 10) / 10;
+  }
+  return tl;
+}
+
+/**
+ * Sound power radiated from a duct run (breakout)
+ * The radiated power never exceeds the in-duct sound power.
+ */
+export function calculateBreakout(inDuctPower: OctaveBandData, run: BreakoutDuct): OctaveBandData {
+  const areaRatio = surfaceAreaRatio(run);
+  const tl = ductTransmissionLoss(run);
+  const radiated = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = inDuctPower[freq] ?? 0;
+    const tlOut = Math.max(tl[freq], areaRatio);
+    radiated[freq] = level > 0 ? Math.round((level + areaRatio - tlOut) * 10) / 10 : 0;
+  }
+
+  return radiated;
+}
+
+/**
+ * Break-in transmission loss TL(in) of a duct wall
+ */
+function breakInTransmissionLoss(run: BreakoutDuct, freq: OctaveBandFrequency, tlOut: number): number {
+  const areaRatio = surfaceAreaRatio(run);
+  const { duct } = run;
+
+  if (duct.shape === "round") {
+    return Math.max(tlOut - 3, areaRatio);
+  }
+
+  const a = Math.max(duct.width, duct.height);
+  const b = Math.min(duct.width, duct.height);
+  const crossMode = 6764 / a;
+  if (freq < crossMode) {
+    return Math.max(tlOut - 4 - 10 * Math.log10(a / b) + 20 * Math.log10(freq / crossMode), areaRatio);
+  }
+  return Math.max(tlOut - 3, areaRatio);
+}
+
+/**
+ * Sound power transmitted into a duct run from the space around it (break-in)
+ * Returns the power carried in each direction along the duct.
+ */
+export function calculateBreakIn(surroundingPower: OctaveBandData, run: BreakoutDuct): OctaveBandData {
+  const tl = ductTransmissionLoss(run);
+  const transmitted = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = surroundingPower[freq] ?? 0;
+    const tlIn = breakInTransmissionLoss(run, freq, tl[freq]);
+    transmitted[freq] = level > 0 ? Math.round((level - tlIn - 3) * 10) / 10 : 0;
+  }
+
+  return transmitted;
+}
+
+/**
+ * Room sound pressure from breakout radiated into the ceiling plenum
+ * Applies the ceiling transmission loss, then the room effect.
+ */
+export function breakoutToRoom(radiatedPower: OctaveBandData, ceiling: CeilingType, room: RoomEffectInput): OctaveBandData {
+  const ceilingTL = CEILING_TRANSMISSION_LOSS[ceiling];
+  const throughCeiling = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = radiatedPower[freq] ?? 0;
+    throughCeiling[freq] = level > 0 ? level - ceilingTL[freq] : 0;
+  }
+
+  return soundPowerToPressure(throughCeiling, room);
+}
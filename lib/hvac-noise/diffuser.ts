@@ -0,0 +1,99 @@
+/**
+ * Diffuser and Grille Noise
+ *
+ * Catalog NC ratings are for a single outlet with a 10 dB room attenuation.
+ * Rooms served by several outlets at a different airflow need the rating
+ * scaled before it is compared with a room criterion.
+ *
+ * Lw = Lw(catalog) + 50 log(V / Vc) + 10 log(A / Ac)
+ * Lp = Lw + 10 log N - room attenuation
+ *
+ * V = neck velocity, A = neck area, N = number of outlets. With a room
+ * effect calculation the outlet count is applied by the room effect method
+ * (the Thompson method treats the outlets as a ceiling array). A catalog NC is
+ * converted to sound power with the diffuser spectrum template at that NC
+ * plus the 10 dB catalog room attenuation.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); AHRI Standard 885, Section 5
+ */
+
+import { convertSoundMeasurement, ncToOctaveBands } from "../conversions";
+import { OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { soundPowerToPressure } from "./room-effect";
+import { DiffuserInput, DiffuserRating, DiffuserResult, DuctSection } from "./types";
+
+// Room attenuation assumed by catalog NC ratings (dB)
+export const CATALOG_ROOM_ATTENUATION = 10;
+
+// Velocity exponent for outlet flow noise (Lw ∝ V^5)
+const VELOCITY_EXPONENT = 50;
+
+/**
+ * Neck area (ft²)
+ */
+function neckArea(neck: DuctSection): number {
+  return neck.shape === "round" ? (Math.PI * neck.width * neck.width) / 4 / 144 : (neck.width * neck.height) / 144;
+}
+
+/**
+ * Catalog sound power per outlet
+ * Uses the published spectrum when given, otherwise the diffuser spectrum
+ * template at the catalog NC plus the catalog room attenuation.
+ */
+function catalogSoundPower(rating: DiffuserRating): OctaveBandData | undefined {
+  if (rating.soundPower) return rating.soundPower;
+  if (rating.nc === undefined) return undefined;
+
+  const spectrum = ncToOctaveBands(rating.nc, "diffuser");
+  const power = {} as OctaveBandData;
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    power[freq] = spectrum[freq] + CATALOG_ROOM_ATTENUATION;
+  }
+  return power;
+}
+
+/**
+ * Room spectrum and NC from diffusers or grilles
+ * Returns undefined when the rating has neither NC nor sound power, or when
+ * an airflow or neck size is not positive.
+ */
+export function calculateDiffuserNoise(input: DiffuserInput): DiffuserResult | undefined {
+  const { rating, neck, airflow, count, roomAttenuation } = input;
+  const catalog = catalogSoundPower(rating);
+  const catalogArea = neckArea(rating.neck);
+  const area = neckArea(neck);
+  if (!catalog || !(rating.airflow > 0 && airflow > 0 && catalogArea > 0 && area > 0)) return undefined;
+
+  const neckVelocity = airflow / area;
+  const catalogVelocity = rating.airflow / catalogArea;
+  const airflowCorrection = Math.round(
+    (VELOCITY_EXPONENT * Math.log10(neckVelocity / catalogVelocity) + 10 * Math.log10(area / catalogArea)) * 10
+  ) / 10;
+
+  const soundPower = {} as OctaveBandData;
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = catalog[freq] ?? 0;
+    soundPower[freq] = level > 0 ? Math.round((level + airflowCorrection) * 10) / 10 : 0;
+  }
+
+  let spectrum: OctaveBandData;
+  if (typeof roomAttenuation === "number") {
+    const countCorrection = 10 * Math.log10(Math.max(1, count));
+    spectrum = {} as OctaveBandData;
+    for (const freq of OCTAVE_BAND_FREQUENCIES) {
+      const level = soundPower[freq] + countCorrection - roomAttenuation;
+      spectrum[freq] = soundPower[freq] > 0 ? Math.max(0, Math.round(level * 10) / 10) : 0;
+    }
+  } else {
+    spectrum = soundPowerToPressure(soundPower, { ...roomAttenuation, sourceCount: Math.max(1, count) });
+  }
+
+  return {
+    soundPower,
+    neckVelocity: Math.round(neckVelocity),
+    airflowCorrection,
+    room: convertSoundMeasurement({ octaveBands: spectrum }),
+    estimated: !rating.soundPower,
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * Duct System Element Attenuation
+ *
+ * Sound power attenuation (dB) of the elements between a fan and the room
+ * it serves. Each function returns the attenuation per octave band; positive
+ * values reduce the sound power carried downstream.
+ *
+ * - Straight unlined duct: tabulated dB/ft by perimeter/area ratio
+ * - Lined rectangular duct: IL = B (P/A)^C t^D dB/ft, max 40 dB
+ * - Elbows: tabulated by the product of frequency and duct width
+ * - Branch power division: 10 log(total airflow / branch airflow)
+ * - End reflection: ERL = 10 log[1 + (a1 c / π f D)^a2]
+ * - Plenum (Wells): TL = -10 log[Sout (Q cos θ / 4πr² + (1 - α) / Sα)]
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); Reynolds & Bevirt, "Algorithms for HVAC Acoustics" (1994)
+ */
+
+import { OctaveBandData, OctaveBandFrequency, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { DuctSection, LiningThickness, PlenumDimensions } from "./types";
+
+// Speed of sound (ft/s)
+const SPEED_OF_SOUND = 1125;
+
+// Flanking transmission through the duct walls limits lined duct attenuation
+const MAX_LINED_DUCT_ATTENUATION = 40;
+
+// Unlined rectangular duct attenuation (dB/ft) by perimeter/area ratio (1/ft)
+// Format: [P/A, 63Hz, 125Hz, 250Hz, 500Hz and above]
+const UNLINED_RECTANGULAR_ATTENUATION: readonly (readonly number[])[] = [
+  [8.0, 0.30, 0.20, 0.10, 0.10],   // 6 x 6 in
+  [4.0, 0.35, 0.20, 0.10, 0.06],   // 12 x 12 in
+  [3.0, 0.40, 0.20, 0.10, 0.05],   // 12 x 24 in
+  [2.0, 0.25, 0.20, 0.10, 0.03],   // 24 x 24 in
+  [1.0, 0.15, 0.10, 0.07, 0.02],   // 48 x 48 in
+  [0.7, 0.10, 0.10, 0.05, 0.02],   // 72 x 72 in
+];
+
+// Unlined round duct attenuation (dB/ft) by maximum diameter (in)
+// Format: [diameter, 63Hz, 125Hz, 250Hz, 500Hz, 1kHz, 2kHz, 4kHz, 8kHz]
+const UNLINED_ROUND_ATTENUATION: readonly (readonly number[])[] = [
+  [7, 0.03, 0.03, 0.05, 0.05, 0.10, 0.10, 0.10, 0.10],
+  [15, 0.03, 0.03, 0.03, 0.05, 0.07, 0.07, 0.07, 0.07],
+  [30, 0.02, 0.02, 0.02, 0.03, 0.05, 0.05, 0.05, 0.05],
+  [60, 0.01, 0.01, 0.01, 0.02, 0.02, 0.02, 0.02, 0.02],
+];
+
+// Lined rectangular duct insertion loss coefficients: IL/ft = B (P/A)^C t^D
+const LINED_DUCT_COEFFICIENTS: Record<OctaveBandFrequency, { b: number; c: number; d: number }> = {
+  63: { b: 0.0133, c: 1.959, d: 0.917 },
+  125: { b: 0.0574, c: 1.410, d: 0.941 },
+  250: { b: 0.2710, c: 0.824, d: 1.079 },
+  500: { b: 1.0147, c: 0.500, d: 1.087 },
+  1000: { b: 1.7700, c: 0.695, d: 0 },
+  2000: { b: 1.3920, c: 0.802, d: 0 },
+  4000: { b: 1.5180, c: 0.451, d: 0 },
+  8000: { b: 1.5810, c: 0.219, d: 0 },
+};
+
+// Elbow attenuation (dB) by frequency × width (kHz·in)
+// Bins: < 1.9, 1.9 - 3.8, 3.8 - 7.5, 7.5 - 15, 15 - 30, > 30
+const ELBOW_FW_LIMITS = [1.9, 3.8, 7.5, 15, 30];
+const ELBOW_ATTENUATION = {
+  square: [0, 1, 5, 8, 4, 3],
+  squareVanes: [0, 1, 4, 6, 4, 4],
+  squareLined: [0, 1, 6, 11, 10, 10],
+  squareLinedVanes: [0, 1, 4, 7, 7, 7],
+  round: [0, 1, 2, 3, 3, 3],
+};
+
+// End reflection constants: flush with a wall or ceiling, or free in space
+const END_REFLECTION_CONSTANTS = {
+  flush: { a1: 0.7, a2: 2 },
+  free: { a1: 1.0, a2: 2 },
+};
+
+// Plenum interior absorption coefficients
+const PLENUM_ABSORPTION: Record<"unlined" | LiningThickness, OctaveBandData> = {
+  unlined: { 63: 0.03, 125: 0.03, 250: 0.03, 500: 0.03, 1000: 0.03, 2000: 0.03, 4000: 0.03, 8000: 0.03 },
+  1: { 63: 0.05, 125: 0.11, 250: 0.28, 500: 0.68, 1000: 0.90, 2000: 0.93, 4000: 0.96, 8000: 0.96 },
+  2: { 63: 0.10, 125: 0.17, 250: 0.86, 500: 1.00, 1000: 1.00, 2000: 1.00, 4000: 0.97, 8000: 0.97 },
+};
+
+// Directivity of the plenum inlet as seen from the outlet
+const PLENUM_INLET_DIRECTIVITY = 4;
+
+/**
+ * Build octave band data from a per-band function, rounded to 0.1 dB
+ */
+function perBand(fn: (freq: OctaveBandFrequency) => number): OctaveBandData {
+  const bands = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    bands[freq] = Math.round(fn(freq) * 10) / 10;
+  }
+
+  return bands;
+}
+
+/**
+ * Perimeter / area ratio of a duct section (1/ft)
+ * Round ducts: 4 / D
+ */
+export function getPerimeterAreaRatio(duct: DuctSection): number {
+  if (duct.shape === "round") {
+    return 48 / duct.width;
+  }
+  return (24 * (duct.width + duct.height)) / (duct.width * duct.height);
+}
+
+/**
+ * Attenuation of straight unlined sheet metal duct
+ */
+export function straightDuctAttenuation(duct: DuctSection, length: number): OctaveBandData {
+  if (duct.shape === "round") {
+    const row = UNLINED_ROUND_ATTENUATION.find((r) => duct.width <= r[0]) ?? UNLINED_ROUND_ATTENUATION[UNLINED_ROUND_ATTENUATION.length - 1];
+    return perBand((freq) => row[OCTAVE_BAND_FREQUENCIES.indexOf(freq) + 1] * length);
+  }
+
+  // Interpolate between the tabulated perimeter/area ratios
+  const ratio = getPerimeterAreaRatio(duct);
+  const rows = UNLINED_RECTANGULAR_ATTENUATION;
+  const column = (freq: OctaveBandFrequency) => Math.min(OCTAVE_BAND_FREQUENCIES.indexOf(freq) + 1, 4);
+
+  return perBand((freq) => {
+    const col = column(freq);
+    if (ratio >= rows[0][0]) return rows[0][col] * length;
+    if (ratio <= rows[rows.length - 1][0]) return rows[rows.length - 1][col] * length;
+
+    const upper = rows.findIndex((r) => r[0] <= ratio);
+    const [hi, lo] = [rows[upper - 1], rows[upper]];
+    const t = (ratio - lo[0]) / (hi[0] - lo[0]);
+    return (lo[col] + t * (hi[col] - lo[col])) * length;
+  });
+}
+
+/**
+ * Insertion loss of duct with fiberglass lining
+ * Round ducts use the rectangular correlation with P/A = 4 / D.
+ */
+export function linedDuctAttenuation(duct: DuctSection, length: number, lining: LiningThickness): OctaveBandData {
+  const ratio = getPerimeterAreaRatio(duct);
+
+  return perBand((freq) => {
+    const { b, c, d } = LINED_DUCT_COEFFICIENTS[freq];
+    return Math.min(b * Math.pow(ratio, c) * Math.pow(lining, d) * length, MAX_LINED_DUCT_ATTENUATION);
+  });
+}
+
+/**
+ * Attenuation of a 90° elbow
+ * Lined elbows need lining at least two duct widths before and after the turn.
+ */
+export function elbowAttenuation(duct: DuctSection, lined: boolean, turningVanes: boolean): OctaveBandData {
+  let table: number[];
+  if (duct.shape === "round") {
+    table = ELBOW_ATTENUATION.round;
+  } else if (lined) {
+    table = turningVanes ? ELBOW_ATTENUATION.squareLinedVanes : ELBOW_ATTENUATION.squareLined;
+  } else {
+    table = turningVanes ? ELBOW_ATTENUATION.squareVanes : ELBOW_ATTENUATION.square;
+  }
+
+  return perBand((freq) => {
+    const fw = (freq / 1000) * duct.width;
+    const bin = ELBOW_FW_LIMITS.findIndex((limit) => fw < limit);
+    return table[bin === -1 ? ELBOW_FW_LIMITS.length : bin];
+  });
+}
+
+/**
+ * Power division at a branch takeoff
+ * Sound power divides in proportion to airflow (equal duct velocities).
+ */
+export function branchAttenuation(branchAirflow: number, totalAirflow: number): OctaveBandData {
+  const division = branchAirflow > 0 && totalAirflow > branchAirflow
+    ? 10 * Math.log10(totalAirflow / branchAirflow)
+    : 0;
+  return perBand(() => division);
+}
+
+/**
+ * End reflection loss at a duct termination into a room
+ * Rectangular ducts use the diameter of a round duct with the same area.
+ */
+export function endReflectionAttenuation(duct: DuctSection, termination: "flush" | "free"): OctaveBandData {
+  const areaSqIn = duct.shape === "round" ? (Math.PI * duct.width * duct.width) / 4 : duct.width * duct.height;
+  const diameterFt = Math.sqrt((4 * areaSqIn) / Math.PI) / 12;
+  const { a1, a2 } = END_REFLECTION_CONSTANTS[termination];
+
+  return perBand((freq) =>
+    10 * Math.log10(1 + Math.pow((a1 * SPEED_OF_SOUND) / (Math.PI * freq * diameterFt), a2))
+  );
+}
+
+/**
+ * Transmission loss of a plenum chamber (Wells method)
+ * Reliable above the plenum's cut-on frequency; understates low-frequency
+ * loss in small plenums. Never less than 0 dB.
+ */
+export function plenumAttenuation(plenum: PlenumDimensions): OctaveBandData {
+  const { length, width, height, outletArea, offset } = plenum;
+  const surfaceArea = 2 * (length * width + length * height + width * height);
+  const distance = Math.sqrt(length * length + offset * offset);
+  const cosTheta = length / distance;
+  const absorption = PLENUM_ABSORPTION[plenum.lining ?? "unlined"];
+
+  return perBand((freq) => {
+    const alpha = absorption[freq];
+    const direct = (PLENUM_INLET_DIRECTIVITY * cosTheta) / (4 * Math.PI * distance * distance);
+    const reverberant = (1 - alpha) / (surfaceArea * alpha);
+    return Math.max(0, -10 * Math.log10(outletArea * (direct + reverberant)));
+  });
+}
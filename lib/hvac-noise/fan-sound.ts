@@ -0,0 +1,126 @@
+/**
+ * Fan Sound Power Estimate (Graham Method)
+ *
+ * Before manufacturer data is available, fan sound power can be estimated
+ * from the fan type and its scheduled duty:
+ *
+ *   Lw = Kw + 10 log(Q / Q1) + 20 log(P / P1) + C     (each octave band)
+ *   Lw(blade-pass band) += BFI
+ *
+ *   Kw   specific sound power level of the fan type (dB)
+ *   Q    airflow (CFM), Q1 = 1 CFM
+ *   P    total pressure (in. w.g.), P1 = 1 in. w.g.
+ *   C    off-peak efficiency correction (dB)
+ *   BFI  blade frequency increment, added in the octave band containing
+ *        the blade-pass frequency (BPF = rpm × blades / 60)
+ *
+ * The estimate is for the inlet or outlet sound power alone; add 3 dB for
+ * total sound power. Expect ±4 dB against tested data.
+ *
+ * Source: ASHRAE Handbook - HVAC Systems and Applications (1987), Chapter 52;
+ * Graham, "How to Estimate Fan Noise", Sound and Vibration (1972)
+ */
+
+import { OctaveBandData, OctaveBandFrequency, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { FanSoundInput, FanSoundResult, FanType } from "./types";
+
+export const FAN_TYPE_LABELS: Record<FanType, string> = {
+  "centrifugal-airfoil-large": "Centrifugal airfoil / backward curved (> 36 in wheel)",
+  "centrifugal-airfoil-small": "Centrifugal airfoil / backward curved (< 36 in wheel)",
+  "centrifugal-forward-curved": "Centrifugal forward curved",
+  "centrifugal-radial-large": "Centrifugal radial (> 40 in wheel)",
+  "centrifugal-radial-small": "Centrifugal radial (< 40 in wheel)",
+  "vaneaxial-low-hub": "Vaneaxial (hub ratio 0.3 - 0.4)",
+  "vaneaxial-medium-hub": "Vaneaxial (hub ratio 0.4 - 0.6)",
+  "vaneaxial-high-hub": "Vaneaxial (hub ratio 0.6 - 0.8)",
+  "tubeaxial-large": "Tubeaxial (> 40 in wheel)",
+  "tubeaxial-small": "Tubeaxial (< 40 in wheel)",
+  propeller: "Propeller (general ventilation)",
+};
+
+// Specific sound power levels Kw (dB), blade frequency increment and the
+// octave band that usually contains the blade-pass frequency
+export const FAN_SOUND_COEFFICIENTS: Record<
+  FanType,
+  { specificLevels: number[]; bladeIncrement: number; bladePassBand: OctaveBandFrequency }
+> = {
+  "centrifugal-airfoil-large": { specificLevels: [32, 32, 31, 29, 28, 23, 15, 13], bladeIncrement: 3, bladePassBand: 250 },
+  "centrifugal-airfoil-small": { specificLevels: [36, 38, 36, 34, 33, 28, 20, 18], bladeIncrement: 3, bladePassBand: 250 },
+  "centrifugal-forward-curved": { specificLevels: [47, 43, 39, 33, 28, 25, 23, 20], bladeIncrement: 2, bladePassBand: 500 },
+  "centrifugal-radial-large": { specificLevels: [56, 47, 43, 39, 37, 32, 29, 26], bladeIncrement: 8, bladePassBand: 125 },
+  "centrifugal-radial-small": { specificLevels: [63, 53, 48, 46, 44, 39, 36, 33], bladeIncrement: 8, bladePassBand: 125 },
+  "vaneaxial-low-hub": { specificLevels: [39, 36, 38, 39, 37, 34, 32, 30], bladeIncrement: 6, bladePassBand: 125 },
+  "vaneaxial-medium-hub": { specificLevels: [37, 39, 43, 43, 43, 41, 38, 36], bladeIncrement: 6, bladePassBand: 125 },
+  "vaneaxial-high-hub": { specificLevels: [43, 43, 46, 44, 42, 40, 37, 35], bladeIncrement: 6, bladePassBand: 125 },
+  "tubeaxial-large": { specificLevels: [41, 39, 43, 41, 39, 37, 34, 32], bladeIncrement: 5, bladePassBand: 63 },
+  "tubeaxial-small": { specificLevels: [40, 41, 47, 46, 44, 43, 37, 35], bladeIncrement: 5, bladePassBand: 63 },
+  propeller: { specificLevels: [48, 51, 58, 56, 55, 52, 46, 42], bladeIncrement: 5, bladePassBand: 63 },
+};
+
+// Off-peak efficiency correction: [max % below peak efficiency, correction dB]
+const EFFICIENCY_CORRECTIONS: [number, number][] = [
+  [10, 0],
+  [15, 3],
+  [25, 6],
+  [35, 9],
+  [45, 12],
+  [50, 15],
+];
+
+/**
+ * Blade-pass frequency (Hz) from fan speed (rpm) and blade count
+ */
+export function getBladePassFrequency(fanSpeed: number, blades: number): number {
+  return Math.round((fanSpeed * blades) / 60);
+}
+
+/**
+ * Octave band containing a frequency (limited to 63 Hz - 8 kHz)
+ */
+export function getOctaveBandForFrequency(frequency: number): OctaveBandFrequency {
+  return OCTAVE_BAND_FREQUENCIES.reduce((nearest, freq) =>
+    Math.abs(Math.log2(frequency / freq)) < Math.abs(Math.log2(frequency / nearest)) ? freq : nearest
+  );
+}
+
+/**
+ * Correction (dB) for a fan selected below its peak efficiency
+ * Deviation is the percentage points below peak static efficiency;
+ * beyond 50 the correction stays at its largest value.
+ */
+export function getEfficiencyCorrection(deviation: number): number {
+  const row = EFFICIENCY_CORRECTIONS.find(([max]) => deviation <= max);
+  return row ? row[1] : EFFICIENCY_CORRECTIONS[EFFICIENCY_CORRECTIONS.length - 1][1];
+}
+
+/**
+ * Estimate fan inlet or outlet sound power from fan type, airflow and pressure
+ * Returns undefined unless airflow and total pressure are positive. Without
+ * a blade-pass frequency, the blade increment goes in the band typical for
+ * the fan type.
+ */
+export function estimateFanSoundPower(input: FanSoundInput): FanSoundResult | undefined {
+  const { fanType, airflow, totalPressure, bladePassFrequency, efficiencyDeviation = 0 } = input;
+  if (!(airflow > 0 && totalPressure > 0)) return undefined;
+
+  const coefficients = FAN_SOUND_COEFFICIENTS[fanType];
+  const bladePassBand = bladePassFrequency && bladePassFrequency > 0
+    ? getOctaveBandForFrequency(bladePassFrequency)
+    : coefficients.bladePassBand;
+  const efficiencyCorrection = getEfficiencyCorrection(Math.max(0, efficiencyDeviation));
+  const dutyLevel = 10 * Math.log10(airflow) + 20 * Math.log10(totalPressure) + efficiencyCorrection;
+
+  const soundPower = {} as OctaveBandData;
+  OCTAVE_BAND_FREQUENCIES.forEach((freq, i) => {
+    const level = coefficients.specificLevels[i] + dutyLevel + (freq === bladePassBand ? coefficients.bladeIncrement : 0);
+    soundPower[freq] = Math.max(0, Math.round(level * 10) / 10);
+  });
+
+  return {
+    soundPower,
+    bladePassBand,
+    bladeIncrement: coefficients.bladeIncrement,
+    efficiencyCorrection,
+    estimatedBladePass: !(bladePassFrequency && bladePassFrequency > 0),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * HVAC Noise Prediction Module
+ * Fan sound power, room effect, regenerated noise, breakout, diffuser,
+ * AHRI 885, silencer and source-path-receiver calculations
+ */
+
+// Types
+export type {
+  RoomEffectMethod,
+  RoomDimensions,
+  SourcePosition,
+  RoomEffectInput,
+  DuctShape,
+  DuctSection,
+  LiningThickness,
+  PlenumDimensions,
+  PathElement,
+  PathElementType,
+  PathStep,
+  PathResult,
+  RegeneratedNoiseFitting,
+  RegeneratedNoiseFittingType,
+  SteelGauge,
+  CeilingType,
+  BreakoutDuct,
+  DiffuserRating,
+  DiffuserInput,
+  DiffuserResult,
+  AHRI885Path,
+  TerminalSize,
+  AHRI885Options,
+  AHRI885RowResult,
+  SilencerType,
+  Silencer,
+  SilencerOption,
+  SilencerCatalogParseResult,
+  FanType,
+  FanSoundInput,
+  FanSoundResult,
+} from "./types";
+
+// Fan sound power estimate
+export {
+  FAN_TYPE_LABELS,
+  FAN_SOUND_COEFFICIENTS,
+  getBladePassFrequency,
+  getOctaveBandForFrequency,
+  getEfficiencyCorrection,
+  estimateFanSoundPower,
+} from "./fan-sound";
+
+// Room effect (sound power to sound pressure)
+export {
+  DIRECTIVITY_FACTORS,
+  ROOM_EFFECT_METHOD_LABELS,
+  getRoomVolume,
+  calculateRoomEffect,
+  getRoomEffect,
+  soundPowerToPressure,
+} from "./room-effect";
+
+// Duct element attenuation
+export {
+  getPerimeterAreaRatio,
+  straightDuctAttenuation,
+  linedDuctAttenuation,
+  elbowAttenuation,
+  branchAttenuation,
+  endReflectionAttenuation,
+  plenumAttenuation,
+} from "./duct-elements";
+
+// Regenerated (flow-generated) noise
+export {
+  REGENERATED_NOISE_FITTING_LABELS,
+  calculateRegeneratedNoise,
+} from "./regenerated-noise";
+
+// Duct breakout and break-in
+export {
+  STEEL_GAUGE_MASS,
+  CEILING_TYPE_LABELS,
+  CEILING_TRANSMISSION_LOSS,
+  ductTransmissionLoss,
+  calculateBreakout,
+  calculateBreakIn,
+  breakoutToRoom,
+} from "./breakout";
+
+// Diffuser and grille noise
+export {
+  CATALOG_ROOM_ATTENUATION,
+  calculateDiffuserNoise,
+} from "./diffuser";
+
+// AHRI 885 terminal unit room sound levels
+export {
+  TERMINAL_SIZE_LABELS,
+  AHRI885_PATH_LABELS,
+  AHRI885_DISCHARGE_ATTENUATION,
+  AHRI885_RADIATED_ATTENUATION,
+  getTerminalSize,
+  getAHRI885Attenuation,
+  ahri885RoomSpectrum,
+  classifyAHRI885Path,
+  evaluateAHRI885Rows,
+} from "./ahri885";
+
+// Silencer catalog and selection
+export {
+  SILENCER_TYPE_LABELS,
+  DEFAULT_SILENCER_CATALOG,
+  silencerAtFaceVelocity,
+  selectSilencers,
+  parseSilencerCatalogCSV,
+  parseSilencerCatalogJSON,
+  parseSilencerCatalog,
+} from "./silencers";
+
+// Source-path-receiver calculation
+export {
+  PATH_ELEMENT_LABELS,
+  getElementAttenuation,
+  describePathElement,
+  calculatePath,
+} from "./path";
@@ -0,0 +1,235 @@
+/**
+ * Source-Path-Receiver Calculation
+ *
+ * Follows fan sound power through an ordered chain of duct elements,
+ * subtracting each element's attenuation per octave band and adding the
+ * noise regenerated by fittings and silencers, and ends with the room effect
+ * to give the sound pressure at the listener. This is the ASHRAE Chapter 48
+ * path calculation usually run in a spreadsheet.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control)
+ */
+
+import { addDecibels } from "../conversions/decibels";
+import { calculateNCTangency } from "../conversions/nc-curves";
+import { OctaveBandData, OctaveBandFrequency, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import {
+  branchAttenuation,
+  elbowAttenuation,
+  endReflectionAttenuation,
+  linedDuctAttenuation,
+  plenumAttenuation,
+  straightDuctAttenuation,
+} from "./duct-elements";
+import { calculateRegeneratedNoise, REGENERATED_NOISE_FITTING_LABELS } from "./regenerated-noise";
+import { getRoomEffect } from "./room-effect";
+import { DuctSection, PathElement, PathElementType, PathResult, PathStep, RegeneratedNoiseFitting } from "./types";
+
+export const PATH_ELEMENT_LABELS: Record<PathElementType, string> = {
+  "straight-duct": "Straight Duct",
+  "lined-duct": "Lined Duct",
+  elbow: "Elbow",
+  branch: "Branch Takeoff",
+  "end-reflection": "End Reflection",
+  plenum: "Plenum",
+  "regenerated-noise": "Regenerated Noise",
+  silencer: "Silencer",
+  "room-effect": "Room Effect",
+};
+
+/**
+ * Attenuation of one path element in each octave band
+ * Regenerated noise adds to the levels rather than attenuating them, so it
+ * depends on the incoming levels; calculatePath handles it and this returns 0.
+ * Silencers return their insertion loss; calculatePath adds the self-noise.
+ */
+export function getElementAttenuation(element: PathElement): OctaveBandData {
+  switch (element.type) {
+    case "straight-duct":
+      return straightDuctAttenuation(element.duct, element.length);
+    case "lined-duct":
+      return linedDuctAttenuation(element.duct, element.length, element.lining);
+    case "elbow":
+      return elbowAttenuation(element.duct, element.lined, element.turningVanes);
+    case "branch":
+      return branchAttenuation(element.branchAirflow, element.totalAirflow);
+    case "end-reflection":
+      return endReflectionAttenuation(element.duct, element.termination);
+    case "plenum":
+      return plenumAttenuation(element.plenum);
+    case "regenerated-noise":
+      return OCTAVE_BAND_FREQUENCIES.reduce((acc, freq) => {
+        acc[freq] = 0;
+        return acc;
+      }, {} as OctaveBandData);
+    case "silencer":
+      return element.silencer.insertionLoss;
+    case "room-effect":
+      return getRoomEffect(element.room);
+  }
+}
+
+/**
+ * Format a duct section for display (e.g., "12×10 in" or "8 in Ø")
+ */
+function formatDuct(duct: DuctSection): string {
+  return duct.shape === "round" ? `${duct.width} in Ø` : `${duct.width}×${duct.height} in`;
+}
+
+/**
+ * Short description of a regenerated noise fitting
+ */
+function describeFitting(fitting: RegeneratedNoiseFitting): string {
+  const label = REGENERATED_NOISE_FITTING_LABELS[fitting.type];
+  switch (fitting.type) {
+    case "damper":
+    case "transition":
+      return `${label}, ${formatDuct(fitting.duct)}, ${fitting.airflow} CFM, ${fitting.pressureDrop} in. w.g.`;
+    case "elbow":
+      return `${label}, ${formatDuct(fitting.duct)}, ${fitting.airflow} CFM`;
+    case "branch-takeoff":
+      return `${label}, ${formatDuct(fitting.branch)}, ${fitting.branchAirflow} of ${fitting.mainAirflow} CFM`;
+  }
+}
+
+/**
+ * Short description of a path element's parameters
+ */
+export function describePathElement(element: PathElement): string {
+  switch (element.type) {
+    case "straight-duct":
+      return `${formatDuct(element.duct)}, ${element.length} ft`;
+    case "lined-duct":
+      return `${formatDuct(element.duct)}, ${element.length} ft, ${element.lining} in lining`;
+    case "elbow":
+      return `${formatDuct(element.duct)}${element.lined ? ", lined" : ""}${element.turningVanes ? ", turning vanes" : ""}`;
+    case "branch":
+      return `${element.branchAirflow} of ${element.totalAirflow} CFM`;
+    case "end-reflection":
+      return `${formatDuct(element.duct)}, ${element.termination === "flush" ? "flush with ceiling" : "free space"}`;
+    case "plenum": {
+      const { length, width, height, lining } = element.plenum;
+      return `${length}×${width}×${height} ft, ${lining ? `${lining} in lining` : "unlined"}`;
+    }
+    case "regenerated-noise":
+      return describeFitting(element.fitting);
+    case "silencer": {
+      const { silencer } = element;
+      return `${silencer.model}, ${silencer.length} ft, ${silencer.pressureDrop} in. w.g. at ${silencer.faceVelocity} fpm`;
+    }
+    case "room-effect": {
+      const { room, sourceCount } = element.room;
+      return `${room.length}×${room.width}×${room.height} ft room${sourceCount > 1 ? `, ${sourceCount} sources` : ""}`;
+    }
+  }
+}
+
+// Levels carried along the path. Bands with no data are undefined; levels
+// attenuated to or below 0 dB keep their value so that later energy sums with
+// regenerated noise stay correct.
+type PathLevels = Partial<Record<OctaveBandFrequency, number>>;
+
+/**
+ * Levels after an attenuation; bands with no data stay undefined
+ */
+function subtractAttenuation(levels: PathLevels, attenuation: OctaveBandData): PathLevels {
+  const result: PathLevels = {};
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = levels[freq];
+    if (level !== undefined) result[freq] = Math.round((level - attenuation[freq]) * 10) / 10;
+  }
+  return result;
+}
+
+/**
+ * Energy sum of the levels carried along the path and noise generated at an element
+ * Generated bands at 0 (no airflow, no self-noise data) add nothing.
+ */
+function addGeneratedNoise(levels: PathLevels, generated: OctaveBandData): PathLevels {
+  const result: PathLevels = {};
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const parts = [levels[freq], generated[freq] > 0 ? generated[freq] : undefined].filter(
+      (level): level is number => level !== undefined
+    );
+    if (parts.length > 0) result[freq] = Math.round(addDecibels(parts) * 10) / 10;
+  }
+  return result;
+}
+
+/**
+ * Levels for display and rating: bands with no data, or at or below 0 dB, are 0
+ */
+function toOctaveBands(levels: PathLevels): OctaveBandData {
+  const result = {} as OctaveBandData;
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = levels[freq];
+    result[freq] = level !== undefined && level > 0 ? level : 0;
+  }
+  return result;
+}
+
+/**
+ * Run a source-path-receiver calculation
+ * Elements are applied in order from the fan. The room effect converts sound
+ * power to sound pressure, so it must be the last element; anything after it
+ * is skipped with a warning. Bands with no source data stay at 0. Step and
+ * receiver levels at or below 0 dB are reported as 0, but the calculation
+ * carries their actual value from element to element.
+ */
+export function calculatePath(source: OctaveBandData, elements: PathElement[]): PathResult {
+  const steps: PathStep[] = [];
+  const warnings: string[] = [];
+  let isSoundPressure = false;
+
+  let levels: PathLevels = {};
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    if (source[freq] > 0) levels[freq] = source[freq];
+  }
+
+  for (const element of elements) {
+    if (isSoundPressure) {
+      warnings.push(`${PATH_ELEMENT_LABELS[element.type]} after the room effect was ignored.`);
+      continue;
+    }
+
+    let next: PathLevels;
+    let attenuation: OctaveBandData;
+    if (element.type === "regenerated-noise" || element.type === "silencer") {
+      // Flow noise is generated at the fitting or silencer and carried downstream with the fan noise
+      const [passed, generated] = element.type === "silencer"
+        ? [subtractAttenuation(levels, element.silencer.insertionLoss), element.silencer.selfNoise]
+        : [levels, calculateRegeneratedNoise(element.fitting)];
+      next = addGeneratedNoise(passed, generated);
+      attenuation = {} as OctaveBandData;
+      for (const freq of OCTAVE_BAND_FREQUENCIES) {
+        attenuation[freq] = Math.round(((levels[freq] ?? 0) - (next[freq] ?? 0)) * 10) / 10;
+      }
+    } else {
+      attenuation = getElementAttenuation(element);
+      next = subtractAttenuation(levels, attenuation);
+    }
+
+    levels = next;
+    steps.push({ element, attenuation, levels: toOctaveBands(levels) });
+    if (element.type === "room-effect") {
+      isSoundPressure = true;
+    }
+  }
+
+  if (!isSoundPressure) {
+    warnings.push("Path has no room effect: receiver levels are sound power, so the NC is not a room rating.");
+  }
+
+  const receiver = toOctaveBands(levels);
+  const tangency = calculateNCTangency(receiver);
+
+  return {
+    steps,
+    receiver,
+    nc: tangency.rating,
+    controllingFrequency: tangency.controllingFrequency,
+    isSoundPressure,
+    warnings,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Regenerated (Flow-Generated) Noise in Duct Fittings
+ *
+ * Turbulence at dampers, fittings and takeoffs generates sound power that
+ * grows with the 5th power of velocity, so it often sets the NC in quiet
+ * rooms served by high-velocity ducts.
+ *
+ * Dampers and transitions (from the fitting pressure drop):
+ *   C  = 15.9×10⁶ ΔP / (Q/S)²             pressure loss coefficient
+ *   BF = (√C - 1) / (C - 1)                blockage factor (0.5 at C = 1)
+ *   Uc = Q / (60 S BF)                     constriction velocity (ft/s)
+ *   St = f D / Uc                          Strouhal number
+ *   Lw = K + 10 log(f/63) + 50 log Uc + 10 log S + 10 log D
+ *   K  = -36.3 - 10.7 log St (St ≤ 25), -1.1 - 35.9 log St (St > 25)
+ *
+ * Elbows and branch takeoffs (junction method, elbows use m = 1):
+ *   m  = Um / Ub                           main / branch velocity ratio
+ *   Lw = Kj + 10 log(f/63) + 50 log Ub + 10 log Sb + 10 log Db + ΔR + ΔT
+ *   Kj = -21.6 + 12.388 m^0.673 - 16.482 m^-0.303 log St - 5.047 m^-0.254 (log St)²
+ *   ΔR = (1 - (r/Db) / 0.15) × (6.793 - 1.86 log St) rounding correction
+ *   ΔT = -1.667 + 1.8 m - 0.133 m²                   upstream turbulence
+ *
+ * Q in CFM, S in ft², D in ft, ΔP in in. w.g.
+ *
+ * Source: ASHRAE Handbook - Fundamentals (1989), Chapter 7; Reynolds &
+ * Bevirt, "Algorithms for HVAC Acoustics" (1994)
+ */
+
+import { OctaveBandData, OctaveBandFrequency, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { DuctSection, RegeneratedNoiseFitting, RegeneratedNoiseFittingType } from "./types";
+
+export const REGENERATED_NOISE_FITTING_LABELS: Record<RegeneratedNoiseFittingType, string> = {
+  damper: "Damper",
+  transition: "Transition",
+  elbow: "Elbow",
+  "branch-takeoff": "Branch Takeoff",
+};
+
+// Strouhal number where the damper spectrum changes slope
+const DAMPER_STROUHAL_BREAK = 25;
+
+// Rounding correction applies up to r/D = 0.15
+const MAX_ROUNDING_RATIO = 0.15;
+
+/**
+ * Cross-section area (ft²)
+ */
+function ductArea(duct: DuctSection): number {
+  return duct.shape === "round" ? (Math.PI * duct.width * duct.width) / 4 / 144 : (duct.width * duct.height) / 144;
+}
+
+/**
+ * Characteristic dimension (ft): height of a rectangular duct, diameter of a round duct
+ */
+function ductHeight(duct: DuctSection): number {
+  return (duct.shape === "round" ? duct.width : duct.height) / 12;
+}
+
+/**
+ * Build sound power data from a per-band function
+ * Rounded to 0.1 dB; levels below 0 dB are 0 (no significant noise).
+ */
+function perBand(fn: (freq: OctaveBandFrequency) => number): OctaveBandData {
+  const bands = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    bands[freq] = Math.max(0, Math.round(fn(freq) * 10) / 10);
+  }
+
+  return bands;
+}
+
+/**
+ * Sound power generated at a constriction with a known pressure drop
+ */
+function constrictionNoise(duct: DuctSection, airflow: number, pressureDrop: number): OctaveBandData {
+  const area = ductArea(duct);
+  const height = ductHeight(duct);
+  const c = (15.9e6 * pressureDrop) / Math.pow(airflow / area, 2);
+  const blockage = Math.abs(c - 1) < 1e-6 ? 0.5 : (Math.sqrt(c) - 1) / (c - 1);
+  const velocity = airflow / (60 * area * blockage);
+
+  return perBand((freq) => {
+    const strouhal = (freq * height) / velocity;
+    const logSt = Math.log10(strouhal);
+    const k = strouhal <= DAMPER_STROUHAL_BREAK ? -36.3 - 10.7 * logSt : -1.1 - 35.9 * logSt;
+    return k + 10 * Math.log10(freq / 63) + 50 * Math.log10(velocity) + 10 * Math.log10(area) + 10 * Math.log10(height);
+  });
+}
+
+/**
+ * Sound power generated in the branch of a junction
+ */
+function junctionNoise(
+  main: DuctSection,
+  branch: DuctSection,
+  mainAirflow: number,
+  branchAirflow: number,
+  radius: number,
+  upstreamTurbulence: boolean
+): OctaveBandData {
+  const branchArea = ductArea(branch);
+  const branchDiameter = Math.sqrt((4 * branchArea) / Math.PI);
+  const branchVelocity = branchAirflow / (60 * branchArea);
+  const m = mainAirflow / (60 * ductArea(main)) / branchVelocity;
+  const roundingRatio = Math.min(radius / 12 / branchDiameter, MAX_ROUNDING_RATIO);
+  const turbulence = upstreamTurbulence ? -1.667 + 1.8 * m - 0.133 * m * m : 0;
+
+  return perBand((freq) => {
+    const logSt = Math.log10((freq * branchDiameter) / branchVelocity);
+    const kj = -21.6 + 12.388 * Math.pow(m, 0.673) - 16.482 * Math.pow(m, -0.303) * logSt - 5.047 * Math.pow(m, -0.254) * logSt * logSt;
+    const rounding = (1 - roundingRatio / MAX_ROUNDING_RATIO) * (6.793 - 1.86 * logSt);
+    return kj + 10 * Math.log10(freq / 63) + 50 * Math.log10(branchVelocity) + 10 * Math.log10(branchArea) + 10 * Math.log10(branchDiameter) + rounding + turbulence;
+  });
+}
+
+/**
+ * Regenerated sound power of a duct fitting in each octave band
+ * Energy-sum the result with the fan sound power at the fitting's position
+ * in the path (see addOctaveBands). Fittings with no airflow return 0.
+ */
+export function calculateRegeneratedNoise(fitting: RegeneratedNoiseFitting): OctaveBandData {
+  switch (fitting.type) {
+    case "damper":
+    case "transition":
+      if (fitting.airflow <= 0 || fitting.pressureDrop <= 0) return perBand(() => 0);
+      return constrictionNoise(fitting.duct, fitting.airflow, fitting.pressureDrop);
+    case "elbow":
+      if (fitting.airflow <= 0) return perBand(() => 0);
+      return junctionNoise(fitting.duct, fitting.duct, fitting.airflow, fitting.airflow, fitting.radius, false);
+    case "branch-takeoff":
+      if (fitting.mainAirflow <= 0 || fitting.branchAirflow <= 0) return perBand(() => 0);
+      return junctionNoise(
+        fitting.main,
+        fitting.branch,
+        fitting.mainAirflow,
+        fitting.branchAirflow,
+        fitting.radius,
+        fitting.upstreamTurbulence
+      );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Room Effect (Sound Power to Room Sound Pressure)
+ *
+ * Equipment sound data is often sound power (Lw), a property of the source.
+ * NC and the other room criteria rate the sound pressure (Lp) heard by an
+ * occupant, which also depends on the room. The room effect is Lw - Lp in
+ * each octave band.
+ *
+ * - Schultz (point source in a typical furnished room):
+ *     Lp = Lw - 10 log r - 5 log V - 3 log f + 25
+ * - Thompson (distributed array of ceiling sources, 5 ft above the floor):
+ *     Lp = Lw(s) - 5 log X - 28 log h + 1.3 log N - 3 log f + 31.3
+ *     X = floor area served by each source / h²
+ * - Direct + reverberant field (sparsely furnished or unusual rooms):
+ *     Lp = Lw + 10 log(Q / 4πr² + 4 / R) + 10.5,  R = Sα / (1 - α)
+ *
+ * r and h in ft, V in ft³, S in ft², f in Hz.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); Schultz, "Relationship between sound power level and
+ * sound pressure level in dwellings and offices", ASHRAE Trans. 91 (1985)
+ */
+
+import { getBandFrequencies } from "../conversions/bands";
+import { ExtendedOctaveBandFrequency, OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { RoomDimensions, RoomEffectInput, RoomEffectMethod, SourcePosition } from "./types";
+
+// Directivity factor Q by source position
+export const DIRECTIVITY_FACTORS: Record<SourcePosition, number> = {
+  free: 1,      // Suspended in the room
+  surface: 2,   // Center of a wall, floor or ceiling
+  edge: 4,      // Junction of two surfaces
+  corner: 8,    // Junction of three surfaces
+};
+
+export const ROOM_EFFECT_METHOD_LABELS: Record<RoomEffectMethod, string> = {
+  schultz: "Point Source (Schultz)",
+  thompson: "Ceiling Array (Thompson)",
+  "direct-reverberant": "Direct + Reverberant",
+};
+
+// Average absorption coefficient of a typical office with acoustic ceiling
+const DEFAULT_ABSORPTION = 0.2;
+
+/**
+ * Room volume (ft³)
+ */
+export function getRoomVolume(room: RoomDimensions): number {
+  return room.length * room.width * room.height;
+}
+
+/**
+ * Room effect (Lw - Lp, dB) for one octave band
+ * Positive values reduce the level heard in the room.
+ */
+export function calculateRoomEffect(input: RoomEffectInput, freq: ExtendedOctaveBandFrequency): number {
+  const { room, distance, sourceCount } = input;
+  const sourceGain = 10 * Math.log10(sourceCount);
+  let lwToLp: number;
+  
+  switch (input.method) {
+    case "schultz":
+      lwToLp = -10 * Math.log10(distance) - 5 * Math.log10(getRoomVolume(room)) - 3 * Math.log10(freq) + 25 + sourceGain;
+      break;
+    case "thompson": {
+      const h = room.height;
+      const areaRatio = (room.length * room.width) / sourceCount / (h * h);
+      lwToLp = -5 * Math.log10(areaRatio) - 28 * Math.log10(h) + 1.3 * Math.log10(sourceCount) - 3 * Math.log10(freq) + 31.3;
+      break;
+    }
+    case "direct-reverberant": {
+      const alpha = input.absorption ?? DEFAULT_ABSORPTION;
+      const surfaceArea = 2 * (room.length * room.width + room.length * room.height + room.width * room.height);
+      const roomConstant = (surfaceArea * alpha) / (1 - alpha);
+      const q = DIRECTIVITY_FACTORS[input.position];
+      lwToLp = 10 * Math.log10(q / (4 * Math.PI * distance * distance) + 4 / roomConstant) + 10.5 + sourceGain;
+      break;
+    }
+  }
+  
+  return Math.round(-lwToLp * 10) / 10;
+}
+
+/**
+ * Room effect for each standard octave band (63 Hz - 8 kHz)
+ */
+export function getRoomEffect(input: RoomEffectInput): OctaveBandData {
+  const effect = {} as OctaveBandData;
+  
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    effect[freq] = calculateRoomEffect(input, freq);
+  }
+  
+  return effect;
+}
+
+/**
+ * Convert sound power levels to sound pressure at the listener
+ * Bands with no data stay at 0; 31.5 Hz and 16 kHz are converted when present.
+ */
+export function soundPowerToPressure(soundPower: OctaveBandData, input: RoomEffectInput): OctaveBandData {
+  const pressure = {} as OctaveBandData;
+  
+  for (const freq of getBandFrequencies(soundPower)) {
+    const lw = soundPower[freq] ?? 0;
+    pressure[freq] = lw > 0 ? Math.round((lw - calculateRoomEffect(input, freq)) * 10) / 10 : 0;
+  }
+  
+  return pressure;
+}
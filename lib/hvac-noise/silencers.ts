@@ -0,0 +1,302 @@
+/**
+ * Duct Silencer Catalog and Selection
+ *
+ * A silencer removes its dynamic insertion loss (IL) from the sound power
+ * passing through it and adds its own flow-generated self-noise:
+ *
+ *   Lw(out) = (Lw(in) - IL) ⊕ Lw(self)
+ *
+ * Catalog data is rated at one face velocity. At another face velocity V:
+ *   ΔP = ΔPr (V / Vr)²
+ *   Lw(self) = Lw(self, r) + 55 log(V / Vr)
+ *
+ * Selection inserts each catalog entry into a duct path and ranks the
+ * entries that bring the room under the target NC by pressure drop.
+ *
+ * Catalogs load from JSON (an array of entries, or { "silencers": [...] })
+ * or CSV with one entry per row and these columns (any order, case and
+ * separators ignored): manufacturer, model, type, length, face velocity,
+ * pressure drop, il63 - il8000, sn63 - sn8000.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications, Chapter 48 (Noise and
+ * Vibration Control); ASTM E477 (silencer rating method)
+ */
+
+import { OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import type { RoomType } from "../ashrae/room-types";
+import { calculatePath } from "./path";
+import { PathElement, Silencer, SilencerCatalogParseResult, SilencerOption, SilencerType } from "./types";
+
+export const SILENCER_TYPE_LABELS: Record<SilencerType, string> = {
+  dissipative: "Dissipative",
+  "film-lined": "Film-Lined",
+  packless: "Packless",
+};
+
+// Self-noise velocity exponent (Lw ∝ V^5.5)
+const SELF_NOISE_VELOCITY_EXPONENT = 55;
+
+/**
+ * Octave band data from values listed 63 Hz - 8 kHz
+ */
+function bands(values: number[]): OctaveBandData {
+  const data = {} as OctaveBandData;
+  OCTAVE_BAND_FREQUENCIES.forEach((freq, i) => {
+    data[freq] = values[i];
+  });
+  return data;
+}
+
+/**
+ * Generic rectangular silencer entry rated at 1000 fpm
+ */
+function genericSilencer(type: SilencerType, length: number, pressureDrop: number, il: number[], selfNoise: number[]): Silencer {
+  return {
+    id: `generic-${type}-${length}`,
+    manufacturer: "Generic",
+    model: `${SILENCER_TYPE_LABELS[type]} ${length} ft`,
+    type,
+    length,
+    faceVelocity: 1000,
+    pressureDrop,
+    insertionLoss: bands(il),
+    selfNoise: bands(selfNoise),
+  };
+}
+
+// Typical rectangular silencers (24 × 24 in face) for early selection;
+// load manufacturer data for final selection.
+export const DEFAULT_SILENCER_CATALOG: Silencer[] = [
+  genericSilencer("dissipative", 3, 0.20, [4, 8, 15, 24, 28, 24, 18, 13], [58, 52, 48, 46, 45, 44, 42, 38]),
+  genericSilencer("dissipative", 5, 0.23, [6, 12, 22, 33, 38, 34, 25, 17], [58, 52, 48, 46, 45, 44, 42, 38]),
+  genericSilencer("dissipative", 7, 0.26, [8, 16, 28, 40, 45, 42, 32, 21], [58, 52, 48, 46, 45, 44, 42, 38]),
+  genericSilencer("film-lined", 3, 0.22, [3, 7, 13, 20, 19, 14, 11, 9], [59, 53, 49, 47, 46, 45, 43, 39]),
+  genericSilencer("film-lined", 5, 0.25, [5, 10, 19, 28, 27, 20, 15, 12], [59, 53, 49, 47, 46, 45, 43, 39]),
+  genericSilencer("film-lined", 7, 0.28, [7, 13, 24, 34, 33, 26, 19, 15], [59, 53, 49, 47, 46, 45, 43, 39]),
+  genericSilencer("packless", 3, 0.25, [2, 5, 10, 18, 22, 18, 12, 10], [60, 55, 50, 48, 47, 46, 44, 40]),
+  genericSilencer("packless", 5, 0.30, [3, 7, 15, 26, 30, 25, 17, 13], [60, 55, 50, 48, 47, 46, 44, 40]),
+  genericSilencer("packless", 7, 0.35, [4, 9, 19, 32, 36, 31, 22, 16], [60, 55, 50, 48, 47, 46, 44, 40]),
+];
+
+/**
+ * Silencer performance at another face velocity
+ * Insertion loss is taken as unchanged.
+ */
+export function silencerAtFaceVelocity(silencer: Silencer, faceVelocity: number): Silencer {
+  if (faceVelocity <= 0 || faceVelocity === silencer.faceVelocity) return silencer;
+
+  const ratio = faceVelocity / silencer.faceVelocity;
+  const noiseCorrection = SELF_NOISE_VELOCITY_EXPONENT * Math.log10(ratio);
+  const selfNoise = {} as OctaveBandData;
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const level = silencer.selfNoise[freq] ?? 0;
+    selfNoise[freq] = level > 0 ? Math.round((level + noiseCorrection) * 10) / 10 : 0;
+  }
+
+  return {
+    ...silencer,
+    id: `${silencer.id}@${faceVelocity}`,
+    faceVelocity,
+    pressureDrop: Math.round(silencer.pressureDrop * ratio * ratio * 100) / 100,
+    selfNoise,
+  };
+}
+
+/**
+ * Rank silencers for a duct path against a room type's target NC
+ * Each catalog entry is inserted at the given position in the path (0 =
+ * at the fan). Entries that meet the target come first, by pressure drop
+ * then length; the rest follow by room NC. A path without a room effect
+ * never meets the target.
+ */
+export function selectSilencers(
+  source: OctaveBandData,
+  elements: PathElement[],
+  roomType: RoomType,
+  catalog: Silencer[],
+  options: { position?: number; faceVelocity?: number } = {}
+): SilencerOption[] {
+  const position = Math.min(Math.max(0, options.position ?? 0), elements.length);
+
+  const ranked = catalog.map((entry): SilencerOption => {
+    const silencer = options.faceVelocity ? silencerAtFaceVelocity(entry, options.faceVelocity) : entry;
+    const path: PathElement[] = [
+      ...elements.slice(0, position),
+      { type: "silencer", silencer },
+      ...elements.slice(position),
+    ];
+    const result = calculatePath(source, path);
+
+    return {
+      silencer,
+      result,
+      meetsTarget: result.isSoundPressure && result.nc <= roomType.ncMax,
+      margin: roomType.ncMax - result.nc,
+    };
+  });
+
+  return ranked.sort((a, b) => {
+    if (a.meetsTarget !== b.meetsTarget) return a.meetsTarget ? -1 : 1;
+    if (a.meetsTarget) {
+      return a.silencer.pressureDrop - b.silencer.pressureDrop || a.silencer.length - b.silencer.length;
+    }
+    return a.result.nc - b.result.nc || a.silencer.pressureDrop - b.silencer.pressureDrop;
+  });
+}
+
+const SILENCER_TYPES = Object.keys(SILENCER_TYPE_LABELS) as SilencerType[];
+
+/**
+ * Validate one catalog entry from loosely typed data
+ * Band values may be an object keyed by frequency or a list 63 Hz - 8 kHz.
+ */
+function toSilencer(raw: Record<string, unknown>, index: number, errors: string[]): Silencer | undefined {
+  const label = `Entry ${index + 1}`;
+  const number = (value: unknown) => (typeof value === "number" ? value : parseFloat(String(value ?? "")));
+  const bandData = (value: unknown): OctaveBandData | undefined => {
+    const list = Array.isArray(value)
+      ? value.map(number)
+      : value && typeof value === "object"
+      ? OCTAVE_BAND_FREQUENCIES.map((freq) => number((value as Record<string, unknown>)[freq]))
+      : [];
+    return list.length === OCTAVE_BAND_FREQUENCIES.length && list.every(Number.isFinite) ? bands(list) : undefined;
+  };
+
+  const type = String(raw.type ?? "dissipative").toLowerCase() as SilencerType;
+  const length = number(raw.length);
+  const faceVelocity = number(raw.faceVelocity);
+  const pressureDrop = number(raw.pressureDrop);
+  const insertionLoss = bandData(raw.insertionLoss);
+  const selfNoise = bandData(raw.selfNoise);
+
+  if (!raw.model) {
+    errors.push(`${label}: missing model`);
+  } else if (!SILENCER_TYPES.includes(type)) {
+    errors.push(`${label}: unknown type "${raw.type}" (use ${SILENCER_TYPES.join(", ")})`);
+  } else if (!(length > 0 && faceVelocity > 0 && pressureDrop >= 0)) {
+    errors.push(`${label}: length, face velocity and pressure drop must be positive numbers`);
+  } else if (!insertionLoss || !selfNoise) {
+    errors.push(`${label}: insertion loss and self-noise need all 8 octave bands (63 Hz - 8 kHz)`);
+  } else {
+    const model = String(raw.model);
+    return {
+      id: String(raw.id ?? `${raw.manufacturer ?? "catalog"}-${model}-${length}-${index}`),
+      manufacturer: raw.manufacturer ? String(raw.manufacturer) : undefined,
+      model,
+      type,
+      length,
+      faceVelocity,
+      pressureDrop,
+      insertionLoss,
+      selfNoise,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Split a CSV line, honoring double-quoted fields
+ */
+function splitCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === "," && !quoted) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse a silencer catalog from CSV text
+ */
+export function parseSilencerCatalogCSV(text: string): SilencerCatalogParseResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) {
+    return { silencers: [], errors: ["CSV needs a header row and at least one silencer"] };
+  }
+
+  const headers = splitCSVLine(lines[0]).map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const silencers: Silencer[] = [];
+  const errors: string[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const values = splitCSVLine(line);
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      row[header] = values[i] ?? "";
+    });
+
+    const silencer = toSilencer(
+      {
+        id: row.id || undefined,
+        manufacturer: row.manufacturer,
+        model: row.model,
+        type: row.type || undefined,
+        length: row.length,
+        faceVelocity: row.facevelocity,
+        pressureDrop: row.pressuredrop,
+        insertionLoss: OCTAVE_BAND_FREQUENCIES.map((freq) => row[`il${freq}`]),
+        selfNoise: OCTAVE_BAND_FREQUENCIES.map((freq) => row[`sn${freq}`]),
+      },
+      index,
+      errors
+    );
+    if (silencer) silencers.push(silencer);
+  });
+
+  return { silencers, errors };
+}
+
+/**
+ * Parse a silencer catalog from JSON text
+ * Entries that are not objects or fail validation are skipped with an error each.
+ */
+export function parseSilencerCatalogJSON(text: string): SilencerCatalogParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { silencers: [], errors: ["Invalid JSON"] };
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { silencers?: unknown })?.silencers;
+  if (!Array.isArray(entries)) {
+    return { silencers: [], errors: ['JSON must be an array of silencers or { "silencers": [...] }'] };
+  }
+
+  const silencers: Silencer[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      errors.push(`Entry ${index + 1}: expected a silencer object`);
+      return;
+    }
+    const silencer = toSilencer(entry as Record<string, unknown>, index, errors);
+    if (silencer) silencers.push(silencer);
+  });
+
+  return { silencers, errors };
+}
+
+/**
+ * Parse a silencer catalog file by its extension (.json or .csv)
+ */
+export function parseSilencerCatalog(fileName: string, text: string): SilencerCatalogParseResult {
+  return fileName.toLowerCase().endsWith(".json") ? parseSilencerCatalogJSON(text) : parseSilencerCatalogCSV(text);
+}
@@ -0,0 +1,235 @@
+/**
+ * HVAC Noise Prediction Types
+ * Types for room effect, duct path, regenerated noise, breakout, diffuser,
+ * AHRI 885 and silencer calculations
+ *
+ * Dimensions follow the ASHRAE Handbook inch-pound units: room and length
+ * dimensions in feet, duct cross-sections in inches, airflow in CFM.
+ */
+
+import type { ComplianceResult } from "../ashrae/room-types";
+import type { ExtendedOctaveBandFrequency, OctaveBandData, OctaveBandFrequency, SoundMeasurement } from "../conversions/types";
+
+// Room effect equation
+// - schultz: single point source, by distance and room volume
+// - thompson: distributed array of ceiling sources (e.g., diffusers)
+// - direct-reverberant: classic direct + reverberant field with directivity
+export type RoomEffectMethod = "schultz" | "thompson" | "direct-reverberant";
+
+// Room dimensions (ft)
+export interface RoomDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+// Directivity factor Q of a source by its position in the room
+export type SourcePosition = "free" | "surface" | "edge" | "corner";
+
+// Room effect calculation input
+export interface RoomEffectInput {
+  method: RoomEffectMethod;
+  room: RoomDimensions;
+  distance: number;             // Source to listener (ft), not used by thompson
+  sourceCount: number;          // Number of identical sources heard in the room
+  position: SourcePosition;     // Directivity, used by direct-reverberant
+  absorption?: number;          // Average absorption coefficient (default 0.2), used by direct-reverberant
+}
+
+// Duct cross-section shape
+export type DuctShape = "rectangular" | "round";
+
+// Duct cross-section (in); round ducts use width as the diameter
+export interface DuctSection {
+  shape: DuctShape;
+  width: number;
+  height: number;
+}
+
+// Fiberglass duct lining thickness (in)
+export type LiningThickness = 1 | 2;
+
+// Plenum chamber (ft), with inlet and outlet on opposite ends
+export interface PlenumDimensions {
+  length: number;               // Inlet to outlet
+  width: number;
+  height: number;
+  outletArea: number;           // ft²
+  offset: number;               // Outlet offset from the inlet axis (ft)
+  lining?: LiningThickness;     // Unlined when omitted
+}
+
+// Element of a source-path-receiver chain, in order from the fan
+export type PathElement =
+  | { type: "straight-duct"; duct: DuctSection; length: number }          // length in ft
+  | { type: "lined-duct"; duct: DuctSection; length: number; lining: LiningThickness }
+  | { type: "elbow"; duct: DuctSection; lined: boolean; turningVanes: boolean }
+  | { type: "branch"; branchAirflow: number; totalAirflow: number }       // CFM
+  | { type: "end-reflection"; duct: DuctSection; termination: "flush" | "free" }
+  | { type: "plenum"; plenum: PlenumDimensions }
+  | { type: "regenerated-noise"; fitting: RegeneratedNoiseFitting }     // Adds the fitting's flow noise
+  | { type: "silencer"; silencer: Silencer }                            // Insertion loss, then self-noise
+  | { type: "room-effect"; room: RoomEffectInput };
+
+export type PathElementType = PathElement["type"];
+
+// Levels after one element of a path
+export interface PathStep {
+  element: PathElement;
+  attenuation: OctaveBandData;  // dB removed in each band (room effect: Lw - Lp; negative = added noise)
+  levels: OctaveBandData;       // Sound power after the element (sound pressure after the room effect), 0 at or below 0 dB
+}
+
+// Source-path-receiver calculation result
+export interface PathResult {
+  steps: PathStep[];
+  receiver: OctaveBandData;     // Room sound pressure, or sound power when there is no room effect
+  nc: number;
+  controllingFrequency: ExtendedOctaveBandFrequency;
+  isSoundPressure: boolean;     // Path ends in a room effect element
+  warnings: string[];
+}
+
+// Duct fitting that regenerates noise from airflow turbulence
+// Airflow in CFM, pressure drop in in. w.g., radius in inches (0 = square)
+export type RegeneratedNoiseFitting =
+  | { type: "damper"; duct: DuctSection; airflow: number; pressureDrop: number }
+  | { type: "transition"; duct: DuctSection; airflow: number; pressureDrop: number }   // duct = smaller section
+  | { type: "elbow"; duct: DuctSection; airflow: number; radius: number }
+  | {
+      type: "branch-takeoff";
+      main: DuctSection;
+      branch: DuctSection;
+      mainAirflow: number;      // Upstream of the takeoff
+      branchAirflow: number;
+      radius: number;
+      upstreamTurbulence: boolean;  // Another fitting within 5 duct diameters upstream
+    };
+
+export type RegeneratedNoiseFittingType = RegeneratedNoiseFitting["type"];
+
+// Galvanized sheet steel gauge of a duct wall
+export type SteelGauge = 26 | 24 | 22 | 20 | 18 | 16;
+
+// Ceiling between a duct in the plenum and the room below
+export type CeilingType = "none" | "glass-fiber" | "mineral-fiber" | "gypsum";
+
+// Duct run radiating (breakout) or picking up (break-in) noise through its walls
+export interface BreakoutDuct {
+  duct: DuctSection;
+  gauge: SteelGauge;
+  length: number;               // ft
+}
+
+// Diffuser or grille catalog rating: one outlet with a 10 dB room attenuation
+// Give the catalog NC or, when published, the sound power spectrum.
+export interface DiffuserRating {
+  neck: DuctSection;
+  airflow: number;              // CFM
+  nc?: number;
+  soundPower?: OctaveBandData;
+}
+
+// Outlets of one model served at the same airflow
+export interface DiffuserInput {
+  rating: DiffuserRating;
+  neck: DuctSection;
+  airflow: number;              // CFM per outlet
+  count: number;
+  // Actual room attenuation (dB, all bands) or a room effect calculation
+  roomAttenuation: number | RoomEffectInput;
+}
+
+export interface DiffuserResult {
+  soundPower: OctaveBandData;   // per outlet at the design airflow
+  neckVelocity: number;         // fpm
+  airflowCorrection: number;    // dB
+  room: SoundMeasurement;       // room spectrum and ratings
+  estimated: boolean;           // spectrum estimated from the catalog NC
+}
+
+// AHRI 885 sound path from a terminal unit to the room
+export type AHRI885Path = "discharge" | "radiated";
+
+// AHRI 885 Appendix E terminal size: small < 300, medium 300 - 700, large > 700 CFM
+export type TerminalSize = "small" | "medium" | "large";
+
+export interface AHRI885Options {
+  terminalSize: TerminalSize;   // discharge path
+  ceiling: CeilingType;         // radiated path
+}
+
+// Room rating of one submittal sound power row
+export interface AHRI885RowResult {
+  label: string;
+  path: AHRI885Path;
+  terminalSize?: TerminalSize;  // discharge rows
+  inletPressure?: string;
+  airflow?: string;
+  roomSpectrum: OctaveBandData;
+  nc: number;
+  controllingFrequency: number;
+  compliance: ComplianceResult;
+}
+
+// Duct silencer construction
+export type SilencerType = "dissipative" | "film-lined" | "packless";
+
+// Duct silencer catalog entry, rated at one face velocity
+export interface Silencer {
+  id: string;
+  manufacturer?: string;
+  model: string;
+  type: SilencerType;
+  length: number;                 // ft
+  faceVelocity: number;           // fpm (forward flow)
+  pressureDrop: number;           // in. w.g.
+  insertionLoss: OctaveBandData;  // dynamic insertion loss (dB)
+  selfNoise: OctaveBandData;      // generated sound power (dB re 1 pW)
+}
+
+// Silencer inserted into a path, with the resulting room levels
+export interface SilencerOption {
+  silencer: Silencer;             // at the design face velocity
+  result: PathResult;
+  meetsTarget: boolean;
+  margin: number;                 // target NC - room NC (positive = under target)
+}
+
+// Silencer catalog loaded from a JSON or CSV file
+export interface SilencerCatalogParseResult {
+  silencers: Silencer[];
+  errors: string[];
+}
+
+// Fan type and size for the Graham sound power estimate
+export type FanType =
+  | "centrifugal-airfoil-large"
+  | "centrifugal-airfoil-small"
+  | "centrifugal-forward-curved"
+  | "centrifugal-radial-large"
+  | "centrifugal-radial-small"
+  | "vaneaxial-low-hub"
+  | "vaneaxial-medium-hub"
+  | "vaneaxial-high-hub"
+  | "tubeaxial-large"
+  | "tubeaxial-small"
+  | "propeller";
+
+// Scheduled fan duty for a preliminary sound power estimate
+export interface FanSoundInput {
+  fanType: FanType;
+  airflow: number;                // CFM
+  totalPressure: number;          // in. w.g.
+  bladePassFrequency?: number;    // Hz (rpm × blades / 60)
+  efficiencyDeviation?: number;   // percentage points below peak efficiency
+}
+
+// Estimated fan inlet or outlet sound power
+export interface FanSoundResult {
+  soundPower: OctaveBandData;     // dB re 1 pW
+  bladePassBand: OctaveBandFrequency;
+  bladeIncrement: number;         // dB added in the blade-pass band
+  efficiencyCorrection: number;   // dB added in every band
+  estimatedBladePass: boolean;    // blade-pass band typical for the fan type
+}
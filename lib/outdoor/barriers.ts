@@ -0,0 +1,160 @@
+/**
+ * Barriers and Partial Enclosures for Outdoor Equipment
+ *
+ * Screen wall insertion loss from the Fresnel number of the diffracted path
+ * over the top of the wall:
+ *
+ *   δ  = (SB + BR) - SR          path difference over the wall top (ft)
+ *   N  = 2δ / λ                  Fresnel number, λ = c / f
+ *   IL = 10 log(3 + 10 N)        ISO 9613-2 Dz (Maekawa), 0 - 20 dB
+ *
+ * δ is negative when the line of sight clears the wall, which still gives
+ * some attenuation near grazing. Only the most effective wall on each path
+ * is counted; the wall must cross the path on the site plan.
+ *
+ * Partial enclosure insertion loss from the panel transmission loss (TL),
+ * interior absorption (α) and the open fraction of its surface (φ):
+ *
+ *   τ  = (1 - φ) 10^(-TL/10) + φ        effective transmission coefficient
+ *   ᾱ  = (1 - φ) α + φ                  openings absorb all incident sound
+ *   IL = 10 log(ᾱ / τ)                  not below 0
+ *
+ * Ground reflections around barriers are not modeled.
+ *
+ * Source: ISO 9613-2:1996, 7.4 (screening); Maekawa, "Noise reduction by
+ * screens", Applied Acoustics (1968); Bies & Hansen, "Engineering Noise
+ * Control", Chapter 7 (enclosures)
+ */
+
+import { EXTENDED_OCTAVE_BAND_FREQUENCIES, OctaveBandData, OCTAVE_BAND_FREQUENCIES } from "../conversions/types";
+import { Barrier, Enclosure, EnclosureLining, PlanPoint, SitePoint } from "./types";
+
+export const ENCLOSURE_LINING_LABELS: Record<EnclosureLining, string> = {
+  none: "Unlined",
+  "glass-fiber-1": "1 in glass fiber",
+  "glass-fiber-2": "2 in glass fiber",
+  "glass-fiber-4": "4 in glass fiber",
+};
+
+// Interior absorption coefficients by lining
+export const ENCLOSURE_LINING_ABSORPTION: Record<EnclosureLining, OctaveBandData> = {
+  none: { 63: 0.02, 125: 0.03, 250: 0.04, 500: 0.05, 1000: 0.05, 2000: 0.05, 4000: 0.05, 8000: 0.05 },
+  "glass-fiber-1": { 63: 0.05, 125: 0.08, 250: 0.25, 500: 0.65, 1000: 0.9, 2000: 0.95, 4000: 0.95, 8000: 0.9 },
+  "glass-fiber-2": { 63: 0.1, 125: 0.2, 250: 0.55, 500: 0.95, 1000: 0.99, 2000: 0.99, 4000: 0.99, 8000: 0.95 },
+  "glass-fiber-4": { 63: 0.2, 125: 0.45, 250: 0.95, 500: 0.99, 1000: 0.99, 2000: 0.99, 4000: 0.99, 8000: 0.95 },
+};
+
+// Typical enclosure panel transmission loss (dB)
+export const ENCLOSURE_PANEL_PRESETS: Record<string, { label: string; transmissionLoss: OctaveBandData }> = {
+  "steel-18": {
+    label: "18 ga steel sheet",
+    transmissionLoss: { 63: 9, 125: 15, 250: 21, 500: 27, 1000: 33, 2000: 38, 4000: 40, 8000: 40 },
+  },
+  "acoustic-panel-2": {
+    label: "2 in acoustic panel",
+    transmissionLoss: { 63: 12, 125: 16, 250: 20, 500: 28, 1000: 36, 2000: 42, 4000: 45, 8000: 45 },
+  },
+  "acoustic-panel-4": {
+    label: "4 in acoustic panel",
+    transmissionLoss: { 63: 16, 125: 20, 250: 27, 500: 38, 1000: 48, 2000: 52, 4000: 54, 8000: 54 },
+  },
+  "acoustic-louver": {
+    label: "Acoustic louver",
+    transmissionLoss: { 63: 4, 125: 5, 250: 7, 500: 10, 1000: 14, 2000: 16, 4000: 14, 8000: 12 },
+  },
+};
+
+// Speed of sound (ft/s) at about 68 °F
+const SPEED_OF_SOUND = 1128;
+
+// ISO 9613-2 limit for single diffraction (dB)
+const MAX_BARRIER_INSERTION_LOSS = 20;
+
+/**
+ * Where segment a-b crosses segment c-d on the plan, as the fraction along a-b
+ * Returns undefined when they do not cross.
+ */
+function planIntersection(a: PlanPoint, b: PlanPoint, c: PlanPoint, d: PlanPoint): number | undefined {
+  const denominator = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+  if (Math.abs(denominator) < 1e-9) return undefined;
+
+  const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denominator;
+  const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denominator;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : undefined;
+}
+
+/**
+ * Path difference (ft) over the top of a barrier between a source and receiver
+ * Negative when the line of sight clears the top; undefined when the
+ * barrier does not cross the path on the plan.
+ */
+export function barrierPathDifference(source: SitePoint, receiver: SitePoint, barrier: Barrier): number | undefined {
+  const t = planIntersection(source, receiver, barrier.start, barrier.end);
+  if (t === undefined) return undefined;
+
+  const top: SitePoint = {
+    x: source.x + t * (receiver.x - source.x),
+    y: source.y + t * (receiver.y - source.y),
+    height: barrier.height,
+  };
+  const distance = (a: SitePoint, b: SitePoint) =>
+    Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(a.height - b.height, 2));
+
+  const difference = distance(source, top) + distance(top, receiver) - distance(source, receiver);
+  const sightLineHeight = source.height + t * (receiver.height - source.height);
+  return sightLineHeight > barrier.height ? -difference : difference;
+}
+
+/**
+ * Barrier insertion loss (dB) for a path difference (ft), 31.5 Hz - 16 kHz
+ */
+export function barrierInsertionLoss(pathDifference: number): OctaveBandData {
+  const loss = {} as OctaveBandData;
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    const fresnel = (2 * pathDifference * freq) / SPEED_OF_SOUND;
+    const argument = 3 + 10 * fresnel;
+    loss[freq] = argument > 1
+      ? Math.round(Math.min(MAX_BARRIER_INSERTION_LOSS, 10 * Math.log10(argument)) * 10) / 10
+      : 0;
+  }
+  return loss;
+}
+
+/**
+ * Insertion loss of the most effective barrier on a path
+ * Returns undefined when no barrier crosses the path.
+ */
+export function screenPath(
+  source: SitePoint,
+  receiver: SitePoint,
+  barriers: Barrier[]
+): { barrier: Barrier; insertionLoss: OctaveBandData } | undefined {
+  let best: { barrier: Barrier; insertionLoss: OctaveBandData; difference: number } | undefined;
+
+  for (const barrier of barriers) {
+    const difference = barrierPathDifference(source, receiver, barrier);
+    if (difference === undefined || (best && difference <= best.difference)) continue;
+    best = { barrier, insertionLoss: barrierInsertionLoss(difference), difference };
+  }
+
+  return best && { barrier: best.barrier, insertionLoss: best.insertionLoss };
+}
+
+/**
+ * Partial enclosure insertion loss (dB)
+ * Lining absorption is only tabulated for 63 Hz - 8 kHz, so no loss is
+ * credited at 31.5 Hz or 16 kHz.
+ */
+export function enclosureInsertionLoss(enclosure: Enclosure): OctaveBandData {
+  const open = Math.min(Math.max(enclosure.openFraction, 0), 1);
+  const absorption = ENCLOSURE_LINING_ABSORPTION[enclosure.lining];
+  const loss = {} as OctaveBandData;
+
+  for (const freq of OCTAVE_BAND_FREQUENCIES) {
+    const transmission = (1 - open) * Math.pow(10, -(enclosure.panelTL[freq] ?? 0) / 10) + open;
+    const averageAbsorption = (1 - open) * absorption[freq] + open;
+    loss[freq] = Math.max(0, Math.round(10 * Math.log10(averageAbsorption / transmission) * 10) / 10);
+  }
+
+  return loss;
+}
@@ -0,0 +1,64 @@
+/**
+ * Outdoor Noise Module
+ * Outdoor equipment sound propagation to receivers, barriers and enclosures,
+ * noise ordinance criteria, and day/night compliance of operating schedules
+ */
+
+// Types
+export type {
+  SitePoint,
+  OutdoorSource,
+  OutdoorReceiver,
+  AtmosphericConditions,
+  OutdoorPathResult,
+  OutdoorReceiverResult,
+  OrdinanceLimit,
+  OrdinanceComplianceResult,
+  PlanPoint,
+  Barrier,
+  EnclosureLining,
+  Enclosure,
+  OrdinanceZone,
+  OrdinancePeriod,
+  NoiseOrdinance,
+  OperatingScheduleEntry,
+  OrdinancePeriodResult,
+} from "./types";
+
+// Propagation (sound power to receiver sound pressure)
+export {
+  OUTDOOR_POSITION_LABELS,
+  DEFAULT_ATMOSPHERIC_CONDITIONS,
+  getSlantDistance,
+  atmosphericAbsorptionCoefficient,
+  atmosphericAbsorption,
+  geometricDivergence,
+  calculateOutdoorPath,
+  calculateOutdoorLevels,
+} from "./propagation";
+
+// Barriers and partial enclosures
+export {
+  ENCLOSURE_LINING_LABELS,
+  ENCLOSURE_LINING_ABSORPTION,
+  ENCLOSURE_PANEL_PRESETS,
+  barrierPathDifference,
+  barrierInsertionLoss,
+  screenPath,
+  enclosureInsertionLoss,
+} from "./barriers";
+
+// Ordinance criteria and compliance
+export {
+  ORDINANCE_ZONE_LABELS,
+  NOISE_ORDINANCES,
+  getJurisdictions,
+  getOrdinancesByJurisdiction,
+  getOrdinanceById,
+  getPeriodHours,
+  getOrdinancePeriodAt,
+  checkOrdinanceCompliance,
+} from "./ordinance";
+
+// Operating schedules against ordinance periods
+export { getScheduledSpeed, scaleSourceToSpeed, checkOrdinanceSchedule } from "./schedule";
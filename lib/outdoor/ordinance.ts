@@ -0,0 +1,264 @@
+/**
+ * Outdoor Noise Ordinance Criteria and Compliance
+ *
+ * Ordinance limits are kept per jurisdiction and receiving zone, with
+ * separate limits for each time-of-day period (typically daytime 7 am -
+ * 10 pm and nighttime 10 pm - 7 am). Some ordinances set an overall dBA
+ * limit, some octave band limits, and some both.
+ *
+ * Property line levels are checked against the limit for the period. Unlike
+ * indoor NC targets, an ordinance limit is a single maximum, so levels 5 dB
+ * or more under the limit are "excellent". Any exceedance fails the check;
+ * 1-2 dB over is flagged as marginal since it is within the accuracy of the
+ * prediction. An octave band limit the receiver spectrum has no level for
+ * (a 31.5 Hz limit with no 31.5 Hz source data) leaves a passing check
+ * indeterminate.
+ *
+ * The criteria below are a starting point. Ordinances are amended often and
+ * many add tonal or ambient-based penalties, so confirm the limits against
+ * the adopted code for each project.
+ */
+
+import { EXTENDED_OCTAVE_BAND_FREQUENCIES, ExtendedOctaveBandFrequency, OctaveBandData } from "../conversions/types";
+import { NoiseOrdinance, OrdinanceComplianceResult, OrdinanceLimit, OrdinancePeriod, OrdinanceZone } from "./types";
+
+// Margin (dB) under the limit treated as excellent
+const EXCELLENT_MARGIN = 5;
+
+// Exceedance (dB) still within the accuracy of the prediction
+const MARGINAL_EXCEEDANCE = 2;
+
+export const ORDINANCE_ZONE_LABELS: Record<OrdinanceZone, string> = {
+  residential: "Residential",
+  commercial: "Commercial",
+  industrial: "Industrial",
+};
+
+// Daytime 7 am - 10 pm and nighttime 10 pm - 7 am, the most common split
+function dayNight(day: OrdinanceLimit, night: OrdinanceLimit): OrdinancePeriod[] {
+  return [
+    { id: "day", name: "Daytime", start: 7, end: 22, limit: day },
+    { id: "night", name: "Nighttime", start: 22, end: 7, limit: night },
+  ];
+}
+
+/**
+ * Noise Ordinance Database
+ * Limits at the receiving property line, by receiving zone
+ */
+export const NOISE_ORDINANCES: NoiseOrdinance[] = [
+  // Typical limits where no ordinance applies
+  {
+    id: "typical-residential",
+    jurisdiction: "Typical (no local ordinance)",
+    zone: "residential",
+    periods: dayNight({ dba: 55 }, { dba: 45 }),
+    description: "Common residential property line criteria, e.g. for design targets where no ordinance applies",
+  },
+  {
+    id: "typical-commercial",
+    jurisdiction: "Typical (no local ordinance)",
+    zone: "commercial",
+    periods: dayNight({ dba: 65 }, { dba: 60 }),
+    description: "Common commercial property line criteria",
+  },
+  {
+    id: "typical-industrial",
+    jurisdiction: "Typical (no local ordinance)",
+    zone: "industrial",
+    periods: dayNight({ dba: 70 }, { dba: 70 }),
+    description: "Common industrial property line criteria",
+  },
+
+  // Los Angeles: HVAC may not exceed the presumed ambient by more than 5 dB
+  {
+    id: "los-angeles-residential",
+    jurisdiction: "Los Angeles, CA",
+    zone: "residential",
+    periods: dayNight({ dba: 55 }, { dba: 45 }),
+    description: "LAMC 111.03 presumed ambient (50 / 40 dBA) + 5 dB per LAMC 112.02",
+  },
+  {
+    id: "los-angeles-commercial",
+    jurisdiction: "Los Angeles, CA",
+    zone: "commercial",
+    periods: dayNight({ dba: 65 }, { dba: 60 }),
+    description: "LAMC 111.03 presumed ambient (60 / 55 dBA) + 5 dB per LAMC 112.02",
+  },
+  {
+    id: "los-angeles-industrial",
+    jurisdiction: "Los Angeles, CA",
+    zone: "industrial",
+    periods: dayNight({ dba: 70 }, { dba: 70 }),
+    description: "LAMC 111.03 presumed ambient (65 / 65 dBA) + 5 dB per LAMC 112.02",
+  },
+
+  // Denver
+  {
+    id: "denver-residential",
+    jurisdiction: "Denver, CO",
+    zone: "residential",
+    periods: dayNight({ dba: 55 }, { dba: 50 }),
+    description: "DRMC 36-6, measured 25 ft or more from the source at the receiving property",
+  },
+  {
+    id: "denver-commercial",
+    jurisdiction: "Denver, CO",
+    zone: "commercial",
+    periods: dayNight({ dba: 65 }, { dba: 60 }),
+    description: "DRMC 36-6, measured 25 ft or more from the source at the receiving property",
+  },
+  {
+    id: "denver-industrial",
+    jurisdiction: "Denver, CO",
+    zone: "industrial",
+    periods: dayNight({ dba: 80 }, { dba: 75 }),
+    description: "DRMC 36-6 (industrial), measured 25 ft or more from the source at the receiving property",
+  },
+
+  // New York City: circulation devices (HVAC) at any time
+  {
+    id: "new-york-residential",
+    jurisdiction: "New York, NY",
+    zone: "residential",
+    periods: [{ id: "any", name: "Any time", start: 0, end: 0, limit: { dba: 45 } }],
+    description:
+      "NYC Admin. Code 24-227, circulation devices: 45 dBA 3 ft from the receiving window, and no more than 5 dB over ambient",
+  },
+
+  // Illinois: octave band limits, commercial (Class B) source to residential (Class A) land
+  {
+    id: "illinois-residential",
+    jurisdiction: "Illinois",
+    zone: "residential",
+    periods: dayNight(
+      { octaveBands: { 31.5: 72, 63: 71, 125: 65, 250: 57, 500: 51, 1000: 45, 2000: 39, 4000: 34, 8000: 32 } },
+      { octaveBands: { 31.5: 63, 63: 61, 125: 55, 250: 47, 500: 40, 1000: 35, 2000: 30, 4000: 25, 8000: 25 } }
+    ),
+    description: "35 Ill. Adm. Code 901.102, Class B (commercial) source to Class A (residential) receiving land",
+  },
+];
+
+/**
+ * Get the jurisdictions in an ordinance list, in order
+ */
+export function getJurisdictions(ordinances: NoiseOrdinance[] = NOISE_ORDINANCES): string[] {
+  return [...new Set(ordinances.map((ordinance) => ordinance.jurisdiction))];
+}
+
+/**
+ * Get the ordinances for a jurisdiction (one per zone)
+ */
+export function getOrdinancesByJurisdiction(
+  jurisdiction: string,
+  ordinances: NoiseOrdinance[] = NOISE_ORDINANCES
+): NoiseOrdinance[] {
+  return ordinances.filter((ordinance) => ordinance.jurisdiction === jurisdiction);
+}
+
+/**
+ * Get a specific ordinance by ID
+ */
+export function getOrdinanceById(id: string, ordinances: NoiseOrdinance[] = NOISE_ORDINANCES): NoiseOrdinance | undefined {
+  return ordinances.find((ordinance) => ordinance.id === id);
+}
+
+/**
+ * Hours of the day (0 - 23) from the start hour up to the end hour
+ * Wraps past midnight when the end is before the start; start = end is the whole day.
+ */
+export function getPeriodHours(start: number, end: number): number[] {
+  const first = ((Math.floor(start) % 24) + 24) % 24;
+  const length = ((((Math.floor(end) - first) % 24) + 24) % 24) || 24;
+  return Array.from({ length }, (_, i) => (first + i) % 24);
+}
+
+/**
+ * Get the ordinance period in effect at an hour of the day (0 - 23)
+ */
+export function getOrdinancePeriodAt(ordinance: NoiseOrdinance, hour: number): OrdinancePeriod | undefined {
+  return ordinance.periods.find((period) => getPeriodHours(period.start, period.end).includes(Math.floor(hour) % 24));
+}
+
+/**
+ * Check a receiver level against an ordinance limit
+ * Octave band limits are checked where the receiver spectrum has the band;
+ * the largest band exceedance sets the status when it is worse than the dBA
+ * result. Without a dBA limit, the margin is taken from the closest band.
+ * A check that would pass is indeterminate when a band limit has no
+ * receiver level to check.
+ */
+export function checkOrdinanceCompliance(
+  dba: number,
+  limit: OrdinanceLimit,
+  soundPressure?: OctaveBandData
+): OrdinanceComplianceResult {
+  const bandExceedances: OrdinanceComplianceResult["bandExceedances"] = {};
+  let worstBand: { freq: number; exceedance: number } | undefined;
+  let bandMargin: number | undefined;
+  const uncheckedBands: ExtendedOctaveBandFrequency[] = [];
+
+  if (limit.octaveBands && soundPressure) {
+    for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+      const bandLimit = limit.octaveBands[freq];
+      const level = soundPressure[freq];
+      if (bandLimit === undefined) continue;
+      if (level === undefined) {
+        uncheckedBands.push(freq);
+        continue;
+      }
+
+      bandMargin = Math.min(bandMargin ?? Infinity, Math.round((bandLimit - level) * 10) / 10);
+      if (level <= bandLimit) continue;
+
+      const exceedance = Math.round((level - bandLimit) * 10) / 10;
+      bandExceedances[freq] = exceedance;
+      if (!worstBand || exceedance > worstBand.exceedance) worstBand = { freq, exceedance };
+    }
+  }
+
+  const dbaMargin = limit.dba !== undefined ? Math.round((limit.dba - dba) * 10) / 10 : undefined;
+  const margin = dbaMargin ?? bandMargin ?? 0;
+  const limitName = limit.dba !== undefined ? `the ${limit.dba} dBA limit` : "the octave band limits";
+  const exceedance = Math.max(-margin, worstBand?.exceedance ?? 0);
+  const formatBand = (freq: number) => (freq >= 1000 ? `${freq / 1000}k` : `${freq}`);
+  const bandNote = worstBand
+    ? ` (${worstBand.exceedance} dB over the ${formatBand(worstBand.freq)} Hz band limit)`
+    : "";
+
+  let status: OrdinanceComplianceResult["status"];
+  let message: string;
+
+  if (exceedance > MARGINAL_EXCEEDANCE) {
+    status = "fail";
+    message = dbaMargin !== undefined && dbaMargin < 0
+      ? `Exceeds ${limitName} by ${-dbaMargin} dB${bandNote}`
+      : dbaMargin !== undefined
+        ? `Meets ${limitName} but exceeds an octave band limit${bandNote}`
+        : `Exceeds an octave band limit${bandNote}`;
+  } else if (exceedance > 0) {
+    status = "marginal";
+    message = dbaMargin !== undefined && dbaMargin < 0
+      ? `Exceeds ${limitName} by ${-dbaMargin} dB${bandNote} (within prediction accuracy)`
+      : `Exceeds an octave band limit${bandNote} (within prediction accuracy)`;
+  } else if (uncheckedBands.length > 0) {
+    status = "indeterminate";
+    message = `Indeterminate: no receiver level to check the ${uncheckedBands.map(formatBand).join(", ")} Hz band limit. Add source sound power in that band to confirm.`;
+  } else if (margin >= EXCELLENT_MARGIN) {
+    status = "excellent";
+    message = `${margin} dB under ${limitName}`;
+  } else {
+    status = "good";
+    message = `Meets ${limitName} with ${margin} dB margin`;
+  }
+
+  return {
+    compliant: exceedance <= 0 && uncheckedBands.length === 0,
+    level: dba,
+    limit: limit.dba,
+    margin,
+    status,
+    message,
+    bandExceedances,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Outdoor Sound Propagation
+ *
+ * Sound pressure at a receiver from outdoor equipment sound power, per
+ * octave band:
+ *
+ *   Lp = Lw + DI - Adiv - Aatm - Abar - Aencl
+ *
+ *   DI    = 10 log Q + directivity   Q = 2 on a roof or grade, 4 against a
+ *                                    wall, 8 in a corner
+ *   Adiv  = 20 log d + 11            spherical divergence (d in m)
+ *   Aatm  = α d                      ISO 9613-1 absorption coefficient (dB/m)
+ *   Abar, Aencl                      screen wall and enclosure insertion loss
+ *                                    (see barriers)
+ *
+ * Levels from several sources are energy-summed at each receiver. The 31.5 Hz
+ * and 16 kHz bands are propagated when the source sound power has them.
+ * Ground effect is not included.
+ *
+ * Source: ISO 9613-1:1993 (atmospheric absorption); ISO 9613-2:1996
+ * (general method of calculation)
+ */
+
+import { addOctaveBands } from "../conversions/decibels";
+import { octaveBandsToDBA } from "../conversions";
+import { getBandFrequencies } from "../conversions/bands";
+import { EXTENDED_OCTAVE_BAND_FREQUENCIES, OctaveBandData } from "../conversions/types";
+import { DIRECTIVITY_FACTORS } from "../hvac-noise/room-effect";
+import type { SourcePosition } from "../hvac-noise/types";
+import { enclosureInsertionLoss, screenPath } from "./barriers";
+import { checkOrdinanceCompliance } from "./ordinance";
+import {
+  AtmosphericConditions,
+  Barrier,
+  OutdoorPathResult,
+  OutdoorReceiver,
+  OutdoorReceiverResult,
+  OutdoorSource,
+  SitePoint,
+} from "./types";
+
+export const OUTDOOR_POSITION_LABELS: Record<SourcePosition, string> = {
+  free: "Free field (Q = 1)",
+  surface: "On a roof or grade (Q = 2)",
+  edge: "Against a wall (Q = 4)",
+  corner: "In a corner (Q = 8)",
+};
+
+// ISO 9613-2 reference conditions
+export const DEFAULT_ATMOSPHERIC_CONDITIONS: AtmosphericConditions = {
+  temperature: 50,
+  relativeHumidity: 70,
+};
+
+const FEET_TO_METERS = 0.3048;
+
+const NO_ATTENUATION: OctaveBandData = {
+  31.5: 0, 63: 0, 125: 0, 250: 0, 500: 0, 1000: 0, 2000: 0, 4000: 0, 8000: 0, 16000: 0,
+};
+
+// ISO 9613-1 reference temperatures (K)
+const REFERENCE_TEMPERATURE = 293.15;
+const TRIPLE_POINT_TEMPERATURE = 273.16;
+
+/**
+ * Distance between two site points (ft)
+ */
+export function getSlantDistance(a: SitePoint, b: SitePoint): number {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(a.height - b.height, 2));
+}
+
+/**
+ * Atmospheric absorption coefficient (dB/m) at standard pressure (101.325 kPa)
+ */
+export function atmosphericAbsorptionCoefficient(frequency: number, conditions: AtmosphericConditions): number {
+  const t = ((conditions.temperature - 32) * 5) / 9 + 273.15;
+  const saturation = Math.pow(10, -6.8346 * Math.pow(TRIPLE_POINT_TEMPERATURE / t, 1.261) + 4.6151);
+  const h = conditions.relativeHumidity * saturation;
+  const tr = t / REFERENCE_TEMPERATURE;
+
+  const oxygen = 24 + (4.04e4 * h * (0.02 + h)) / (0.391 + h);
+  const nitrogen = Math.pow(tr, -0.5) * (9 + 280 * h * Math.exp(-4.17 * (Math.pow(tr, -1 / 3) - 1)));
+  const f2 = frequency * frequency;
+
+  return 8.686 * f2 * (
+    1.84e-11 * Math.pow(tr, 0.5) +
+    Math.pow(tr, -2.5) * (
+      (0.01275 * Math.exp(-2239.1 / t)) / (oxygen + f2 / oxygen) +
+      (0.1068 * Math.exp(-3352.0 / t)) / (nitrogen + f2 / nitrogen)
+    )
+  );
+}
+
+/**
+ * Atmospheric absorption (dB) over a distance (ft), 31.5 Hz - 16 kHz
+ */
+export function atmosphericAbsorption(distance: number, conditions: AtmosphericConditions): OctaveBandData {
+  const absorption = {} as OctaveBandData;
+  for (const freq of EXTENDED_OCTAVE_BAND_FREQUENCIES) {
+    absorption[freq] = Math.round(atmosphericAbsorptionCoefficient(freq, conditions) * distance * FEET_TO_METERS * 10) / 10;
+  }
+  return absorption;
+}
+
+/**
+ * Spherical divergence (dB) at a distance (ft)
+ */
+export function geometricDivergence(distance: number): number {
+  return Math.round((20 * Math.log10(Math.max(distance, 1) * FEET_TO_METERS) + 11) * 10) / 10;
+}
+
+/**
+ * Sound pressure at a receiver from one source
+ * The source's enclosure and the most effective barrier crossing the path
+ * are subtracted band by band, over the bands the source sound power has.
+ */
+export function calculateOutdoorPath(
+  source: OutdoorSource,
+  receiver: SitePoint,
+  conditions: AtmosphericConditions = DEFAULT_ATMOSPHERIC_CONDITIONS,
+  barriers: Barrier[] = []
+): OutdoorPathResult {
+  const distance = getSlantDistance(source, receiver);
+  const divergence = geometricDivergence(distance);
+  const absorption = atmosphericAbsorption(distance, conditions);
+  const reflection = 10 * Math.log10(DIRECTIVITY_FACTORS[source.position]);
+  const screening = screenPath(source, receiver, barriers);
+  const barrier = screening?.insertionLoss ?? NO_ATTENUATION;
+  const enclosure = source.enclosure ? enclosureInsertionLoss(source.enclosure) : NO_ATTENUATION;
+
+  const directivity = {} as OctaveBandData;
+  const soundPressure = {} as OctaveBandData;
+  for (const freq of getBandFrequencies(source.soundPower)) {
+    const index = Math.round((reflection + (source.directivity?.[freq] ?? 0)) * 10) / 10;
+    const attenuation = divergence + (absorption[freq] ?? 0) + (barrier[freq] ?? 0) + (enclosure[freq] ?? 0);
+    const level = source.soundPower[freq] ?? 0;
+    directivity[freq] = index;
+    soundPressure[freq] = level > 0 ? Math.max(0, Math.round((level + index - attenuation) * 10) / 10) : 0;
+  }
+
+  return {
+    sourceId: source.id,
+    distance: Math.round(distance * 10) / 10,
+    divergence,
+    directivity,
+    absorption,
+    barrier,
+    enclosure,
+    barrierId: screening?.barrier.id,
+    soundPressure,
+    dba: octaveBandsToDBA(soundPressure).value,
+  };
+}
+
+/**
+ * Combined sound pressure at each receiver from all sources
+ * Receivers with a limit are checked against the mitigated level.
+ */
+export function calculateOutdoorLevels(
+  sources: OutdoorSource[],
+  receivers: OutdoorReceiver[],
+  conditions: AtmosphericConditions = DEFAULT_ATMOSPHERIC_CONDITIONS,
+  barriers: Barrier[] = []
+): OutdoorReceiverResult[] {
+  return receivers.map((receiver) => {
+    const paths = sources.map((source) => calculateOutdoorPath(source, receiver, conditions, barriers));
+    const soundPressure = addOctaveBands(paths.map((path) => path.soundPressure));
+    const dba = paths.length > 0 ? octaveBandsToDBA(soundPressure).value : 0;
+    const unmitigated = addOctaveBands(
+      sources.map((source) => calculateOutdoorPath({ ...source, enclosure: undefined }, receiver, conditions).soundPressure)
+    );
+
+    return {
+      receiver,
+      paths,
+      soundPressure,
+      dba,
+      unmitigatedDba: paths.length > 0 ? octaveBandsToDBA(unmitigated).value : 0,
+      compliance: receiver.limit ? checkOrdinanceCompliance(dba, receiver.limit, soundPressure) : undefined,
+    };
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Operating Schedule Compliance
+ *
+ * Checks outdoor equipment against each period of a noise ordinance, with
+ * every unit at the highest speed it runs during that period. Units that
+ * slow down at night (fan setback, low-speed condenser fans) are scaled by
+ * the fan speed law:
+ *
+ *   ΔLw = 50 log(N / Ndesign)
+ *
+ * A unit with a schedule is off during hours the schedule does not cover;
+ * a unit without one runs at design speed all day.
+ *
+ * Source: ASHRAE Handbook - HVAC Applications (fan laws)
+ */
+
+import { scaleSpectrumByFanLaw } from "../conversions/fan-laws";
+import { getPeriodHours } from "./ordinance";
+import { DEFAULT_ATMOSPHERIC_CONDITIONS, calculateOutdoorLevels } from "./propagation";
+import {
+  AtmosphericConditions,
+  Barrier,
+  NoiseOrdinance,
+  OperatingScheduleEntry,
+  OrdinancePeriod,
+  OrdinancePeriodResult,
+  OutdoorReceiver,
+  OutdoorSource,
+} from "./types";
+
+// Design fan speed (% of design)
+const DESIGN_SPEED = 100;
+
+/**
+ * Highest scheduled speed (% of design) during any hour of a period
+ * Returns 0 when the schedule has the unit off for the whole period.
+ */
+export function getScheduledSpeed(schedule: OperatingScheduleEntry[] | undefined, period: OrdinancePeriod): number {
+  if (!schedule) return DESIGN_SPEED;
+
+  const periodHours = getPeriodHours(period.start, period.end);
+  return schedule.reduce((speed, entry) => {
+    const overlaps = getPeriodHours(entry.start, entry.end).some((hour) => periodHours.includes(hour));
+    return overlaps ? Math.max(speed, entry.speed) : speed;
+  }, 0);
+}
+
+/**
+ * Source at a fraction of its design fan speed
+ * Returns undefined when the unit is off.
+ */
+export function scaleSourceToSpeed(source: OutdoorSource, speed: number): OutdoorSource | undefined {
+  if (speed <= 0) return undefined;
+  if (speed === DESIGN_SPEED) return source;
+
+  const soundPower = scaleSpectrumByFanLaw(source.soundPower, { fanSpeed: DESIGN_SPEED }, { fanSpeed: speed }, "speed");
+  return soundPower ? { ...source, soundPower } : source;
+}
+
+/**
+ * Receiver levels and compliance for each period of an ordinance
+ * The period limit replaces any limit set on the receivers; periods without
+ * a dBA or octave band limit are reported without a compliance check.
+ */
+export function checkOrdinanceSchedule(
+  sources: OutdoorSource[],
+  receivers: OutdoorReceiver[],
+  ordinance: NoiseOrdinance,
+  conditions: AtmosphericConditions = DEFAULT_ATMOSPHERIC_CONDITIONS,
+  barriers: Barrier[] = []
+): OrdinancePeriodResult[] {
+  return ordinance.periods.map((period) => {
+    const speeds: Record<string, number> = {};
+    const running = sources.flatMap((source) => {
+      speeds[source.id] = getScheduledSpeed(source.schedule, period);
+      const scaled = scaleSourceToSpeed(source, speeds[source.id]);
+      return scaled ? [scaled] : [];
+    });
+
+    const limit = period.limit.dba !== undefined || period.limit.octaveBands ? period.limit : undefined;
+    const results = calculateOutdoorLevels(
+      running,
+      receivers.map((receiver) => ({ ...receiver, limit })),
+      conditions,
+      barriers
+    );
+
+    return {
+      period,
+      speeds,
+      receivers: results,
+      compliant: results.every((result) => result.compliance?.compliant ?? true),
+    };
+  });
+}
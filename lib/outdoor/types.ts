@@ -0,0 +1,145 @@
+/**
+ * Outdoor Noise Types
+ * Types for outdoor equipment sound propagation and ordinance compliance
+ *
+ * Plan coordinates, heights and distances are in feet; temperature in °F.
+ */
+
+import type { ComplianceResult } from "../ashrae/room-types";
+import type { ExtendedOctaveBandFrequency, OctaveBandData } from "../conversions/types";
+import type { SourcePosition } from "../hvac-noise/types";
+
+// Point on the site plan, with height above grade (ft)
+export interface SitePoint {
+  x: number;
+  y: number;
+  height: number;
+}
+
+// Outdoor equipment (rooftop unit, condenser, cooling tower)
+export interface OutdoorSource extends SitePoint {
+  id: string;
+  name: string;
+  soundPower: OctaveBandData;       // dB re 1 pW
+  position: SourcePosition;         // Reflecting surfaces next to the unit
+  directivity?: Partial<OctaveBandData>;  // Extra directivity toward the receivers (dB)
+  enclosure?: Enclosure;
+  schedule?: OperatingScheduleEntry[];    // Runs at design speed all day when omitted
+}
+
+// Receiver point (property line, neighboring window)
+export interface OutdoorReceiver extends SitePoint {
+  id: string;
+  name: string;
+  limit?: OrdinanceLimit;
+}
+
+// Air temperature and humidity for atmospheric absorption
+export interface AtmosphericConditions {
+  temperature: number;              // °F
+  relativeHumidity: number;         // %
+}
+
+// Sound from one source at one receiver
+export interface OutdoorPathResult {
+  sourceId: string;
+  distance: number;                 // Slant distance (ft)
+  divergence: number;               // Geometric divergence (dB)
+  directivity: OctaveBandData;      // Directivity index incl. reflecting surfaces (dB)
+  absorption: OctaveBandData;       // Atmospheric absorption (dB)
+  barrier: OctaveBandData;          // Barrier insertion loss (dB)
+  enclosure: OctaveBandData;        // Enclosure insertion loss (dB)
+  barrierId?: string;               // Barrier that screens this path
+  soundPressure: OctaveBandData;
+  dba: number;
+}
+
+// Sound from all sources at one receiver
+export interface OutdoorReceiverResult {
+  receiver: OutdoorReceiver;
+  paths: OutdoorPathResult[];
+  soundPressure: OctaveBandData;
+  dba: number;
+  unmitigatedDba: number;           // Without barriers and enclosures
+  compliance?: OrdinanceComplianceResult;
+}
+
+// Point on the site plan (ft)
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+// Screen wall, from end to end on the site plan
+export interface Barrier {
+  id: string;
+  name: string;
+  start: PlanPoint;
+  end: PlanPoint;
+  height: number;                   // Top of wall above grade (ft)
+}
+
+// Interior lining of an enclosure
+export type EnclosureLining = "none" | "glass-fiber-1" | "glass-fiber-2" | "glass-fiber-4";
+
+// Partial enclosure around a unit
+export interface Enclosure {
+  panelTL: OctaveBandData;          // Panel transmission loss (dB)
+  lining: EnclosureLining;
+  openFraction: number;             // Open area / total enclosure surface (0 - 1), e.g. open top
+}
+
+// Limit at a receiver: overall dBA and/or octave bands (dB), as the ordinance sets them
+export interface OrdinanceLimit {
+  dba?: number;
+  octaveBands?: Partial<OctaveBandData>;
+}
+
+// Ordinance compliance result (same status scale as the indoor check)
+export interface OrdinanceComplianceResult {
+  compliant: boolean;
+  level: number;                    // Receiver dBA
+  limit?: number;                   // dBA limit (none for octave band only limits)
+  margin: number;                   // Positive = under the limit
+  status: ComplianceResult["status"];
+  message: string;
+  bandExceedances: Partial<Record<ExtendedOctaveBandFrequency, number>>;  // dB over each band limit
+}
+
+// Zoning of the receiving property
+export type OrdinanceZone = "residential" | "commercial" | "industrial";
+
+// Time-of-day period, from the start hour up to the end hour (0 - 24)
+// A period may wrap past midnight (22 - 7); start = end covers the whole day.
+export interface OrdinancePeriod {
+  id: string;
+  name: string;
+  start: number;
+  end: number;
+  limit: OrdinanceLimit;
+}
+
+// Noise ordinance criteria for one jurisdiction and receiving zone
+export interface NoiseOrdinance {
+  id: string;
+  jurisdiction: string;
+  zone: OrdinanceZone;
+  periods: OrdinancePeriod[];
+  description: string;              // Code section and how the limit applies
+}
+
+// Equipment operating mode over part of the day (same hour convention as ordinance periods)
+export interface OperatingScheduleEntry {
+  name: string;
+  start: number;
+  end: number;
+  speed: number;                    // % of design fan speed (0 = off)
+}
+
+// Receiver levels during one ordinance period, with each unit at its highest scheduled speed
+export interface OrdinancePeriodResult {
+  period: OrdinancePeriod;
+  speeds: Record<string, number>;   // Source id -> % of design fan speed
+  receivers: OutdoorReceiverResult[];
+  compliant: boolean;
+}
@@ -15,6 +15,7 @@ export type {
 // Pattern recognition
 export {
   extractOctaveBands,
+  extractThirdOctaveBands,
   extractNCRating,
   extractDBA,
   extractSones,
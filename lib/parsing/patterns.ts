@@ -7,6 +7,7 @@ import type { PatternMatch, ExtractedSoundData } from "./types";
 
 // Octave band frequency labels (various formats found in spec sheets)
 const FREQUENCY_PATTERNS = {
+  hz31_5: /(?:31\.5\s*(?:Hz|hz|HZ)?|@?\s*31\.5)/i,
   hz63: /(?:63\s*(?:Hz|hz|HZ)?|@?\s*63)/i,
   hz125: /(?:125\s*(?:Hz|hz|HZ)?|@?\s*125)/i,
   hz250: /(?:250\s*(?:Hz|hz|HZ)?|@?\s*250)/i,
@@ -15,8 +16,18 @@ const FREQUENCY_PATTERNS = {
   hz2000: /(?:2000\s*(?:Hz|hz|HZ)?|2k\s*(?:Hz|hz|HZ)?|@?\s*2000|@?\s*2k)/i,
   hz4000: /(?:4000\s*(?:Hz|hz|HZ)?|4k\s*(?:Hz|hz|HZ)?|@?\s*4000|@?\s*4k)/i,
   hz8000: /(?:8000\s*(?:Hz|hz|HZ)?|8k\s*(?:Hz|hz|HZ)?|@?\s*8000|@?\s*8k)/i,
+  hz16000: /(?:16000\s*(?:Hz|hz|HZ)?|16k\s*(?:Hz|hz|HZ)?|@?\s*16000|@?\s*16k)/i,
 };
 
+// One-third octave band center frequencies, in table order (25 Hz - 10 kHz)
+const THIRD_OCTAVE_FREQUENCIES = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800,
+  1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000,
+];
+
+// Minimum run of consecutive third-octave frequencies that identifies a table header
+const MIN_THIRD_OCTAVE_BANDS = 6;
+
 // Single-number rating patterns
 const RATING_PATTERNS = {
   // NC rating: "NC-35", "NC 35", "NC35", "NC: 35", "Noise Criteria: 35"
@@ -61,41 +72,49 @@ const CONDITION_PATTERNS = {
 export function extractOctaveBands(text: string): PatternMatch[] {
   const matches: PatternMatch[] = [];
   
-  // Strategy 1: Look for tabular data with all 8 frequencies
+  // Strategy 1: Look for tabular data with all 8 frequencies, optionally
+  // extended with 31.5 Hz and 16 kHz columns
   // Common format: "63  125  250  500  1k  2k  4k  8k" followed by values
-  const tablePattern = /(?:63|Hz)\s+(?:125|Hz)\s+(?:250|Hz)\s+(?:500|Hz)\s+(?:1k|1000|Hz)\s+(?:2k|2000|Hz)\s+(?:4k|4000|Hz)\s+(?:8k|8000|Hz)[\s\S]{0,200}?(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/gi;
-  
-  let tableMatch;
-  while ((tableMatch = tablePattern.exec(text)) !== null) {
-    const values = tableMatch.slice(1, 9).map(Number);
+  const headerPattern = /(31\.5\s+)?(?:63|Hz)\s+(?:125|Hz)\s+(?:250|Hz)\s+(?:500|Hz)\s+(?:1k|1000|Hz)\s+(?:2k|2000|Hz)\s+(?:4k|4000|Hz)\s+(?:8k|8000|Hz)(\s+(?:16k|16000))?/gi;
+  
+  let headerMatch;
+  while ((headerMatch = headerPattern.exec(text)) !== null) {
+    const keys = [
+      ...(headerMatch[1] ? ["hz31_5"] : []),
+      "hz63", "hz125", "hz250", "hz500", "hz1000", "hz2000", "hz4000", "hz8000",
+      ...(headerMatch[2] ? ["hz16000"] : []),
+    ];
+    
+    // One value per header column within the next 200 characters
+    const valuesPattern = new RegExp(`^[\\s\\S]{0,200}?${Array(keys.length).fill("(\\d{1,3})").join("\\s+")}`);
+    const valuesMatch = valuesPattern.exec(text.substring(headerPattern.lastIndex));
+    if (!valuesMatch) continue;
+    
+    const values = valuesMatch.slice(1).map(Number);
     if (values.every(v => v >= 10 && v <= 100)) { // Reasonable dB range
+      const bands: Record<string, number> = {};
+      keys.forEach((key, i) => {
+        bands[key] = values[i];
+      });
+      
       matches.push({
         pattern: "octave-band-table",
-        value: JSON.stringify({
-          hz63: values[0],
-          hz125: values[1],
-          hz250: values[2],
-          hz500: values[3],
-          hz1000: values[4],
-          hz2000: values[5],
-          hz4000: values[6],
-          hz8000: values[7],
-        }),
+        value: JSON.stringify(bands),
         confidence: "high",
-        context: tableMatch[0].substring(0, 100),
+        context: (headerMatch[0] + valuesMatch[0]).substring(0, 100),
       });
     }
   }
   
   // Strategy 2: Look for individual frequency-value pairs
-  // Format: "63 Hz: 58" or "@ 125 Hz = 50 dB"
-  const pairPattern = /(?:@\s*)?(\d{2,4})\s*(?:Hz|hz|HZ)?[:\s=]+(\d{1,3})\s*(?:dB)?/gi;
+  // Format: "63 Hz: 58", "@ 125 Hz = 50 dB" or "31.5 Hz: 66"
+  const pairPattern = /(?:@\s*)?(\d{2,5}(?:\.5)?)\s*(?:Hz|hz|HZ)?[:\s=]+(\d{1,3})\s*(?:dB)?/gi;
   
   let pairMatch;
   const frequencyValues: Record<string, number> = {};
   
   while ((pairMatch = pairPattern.exec(text)) !== null) {
-    const freq = parseInt(pairMatch[1]);
+    const freq = parseFloat(pairMatch[1]);
     const value = parseInt(pairMatch[2]);
     
     // Map to standard frequencies
@@ -117,11 +136,92 @@ export function extractOctaveBands(text: string): PatternMatch[] {
   return matches;
 }
 
+/**
+ * Extract one-third octave band data from text
+ * Looks for a header row of consecutive 1/3 octave frequencies
+ * ("50 63 80 100 125 160 ..." or "1.25k 1.6k 2k ...") followed by a row of values
+ */
+export function extractThirdOctaveBands(text: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const tokens = text.split(/[\s,;|]+/).filter((token) => token && !/^(?:Hz|dB)$/i.test(token));
+  
+  let i = 0;
+  while (i < tokens.length) {
+    // Find the start of a header run
+    const start = THIRD_OCTAVE_FREQUENCIES.indexOf(parseFrequencyLabel(tokens[i]) ?? -1);
+    if (start === -1) {
+      i++;
+      continue;
+    }
+    
+    // Read consecutive third-octave frequencies
+    const frequencies: number[] = [];
+    while (
+      start + frequencies.length < THIRD_OCTAVE_FREQUENCIES.length &&
+      parseFrequencyLabel(tokens[i + frequencies.length]) === THIRD_OCTAVE_FREQUENCIES[start + frequencies.length]
+    ) {
+      frequencies.push(THIRD_OCTAVE_FREQUENCIES[start + frequencies.length]);
+    }
+    
+    if (frequencies.length < MIN_THIRD_OCTAVE_BANDS) {
+      i++;
+      continue;
+    }
+    
+    // The values are the next numbers after the header, one per band
+    const values: number[] = [];
+    let j = i + frequencies.length;
+    while (j < tokens.length && values.length < frequencies.length) {
+      const value = Number(tokens[j]);
+      if (Number.isFinite(value)) {
+        values.push(value);
+      }
+      j++;
+    }
+    
+    if (values.length === frequencies.length && values.every(v => v >= 0 && v <= 100)) {
+      const bands: Record<string, number> = {};
+      frequencies.forEach((freq, k) => {
+        bands[thirdOctaveKey(freq)] = values[k];
+      });
+      
+      matches.push({
+        pattern: "third-octave-table",
+        value: JSON.stringify(bands),
+        confidence: frequencies.length >= 18 ? "high" : "medium",
+        context: tokens.slice(i, j).join(" ").substring(0, 100),
+      });
+    }
+    
+    i = j;
+  }
+  
+  return matches;
+}
+
+/**
+ * Parse a frequency label such as "31.5", "1250", "1.25k" or "10kHz"
+ */
+function parseFrequencyLabel(token: string | undefined): number | null {
+  const match = token?.match(/^(\d+(?:\.\d+)?)(k)?(?:Hz)?$/i);
+  if (!match) return null;
+  const freq = parseFloat(match[1]) * (match[2] ? 1000 : 1);
+  return Math.round(freq * 10) / 10;
+}
+
+/**
+ * Key for a one-third octave band in ExtractedSoundData (e.g., 31.5 → "hz31_5")
+ */
+function thirdOctaveKey(freq: number): string {
+  return `hz${String(freq).replace(".", "_")}`;
+}
+
 /**
  * Map various frequency representations to standard keys
  */
 function mapToStandardFrequency(freq: number): string | null {
   const frequencyMap: Record<number, string> = {
+    31.5: "hz31_5",
     63: "hz63",
     125: "hz125",
     250: "hz250",
@@ -134,6 +234,8 @@ function mapToStandardFrequency(freq: number): string | null {
     4: "hz4000", // 4k
     8000: "hz8000",
     8: "hz8000", // 8k
+    16000: "hz16000",
+    16: "hz16000", // 16k
   };
   return frequencyMap[freq] || null;
 }
@@ -252,6 +354,7 @@ export function extractAllSoundData(
   text: string,
   fileName: string
 ): ExtractedSoundData {
+  const thirdOctaveMatches = extractThirdOctaveBands(text);
   const octaveBandMatches = extractOctaveBands(text);
   const ncMatches = extractNCRating(text);
   const dbaMatches = extractDBA(text);
@@ -260,9 +363,10 @@ export function extractAllSoundData(
   
   // Determine overall confidence based on what was found
   let confidence: "high" | "medium" | "low" = "low";
-  if (octaveBandMatches.length > 0 && ncMatches.length > 0) {
+  const hasBandData = thirdOctaveMatches.length > 0 || octaveBandMatches.length > 0;
+  if (hasBandData && ncMatches.length > 0) {
     confidence = "high";
-  } else if (octaveBandMatches.length > 0 || ncMatches.length > 0) {
+  } else if (hasBandData || ncMatches.length > 0) {
     confidence = "medium";
   }
   
@@ -276,8 +380,15 @@ export function extractAllSoundData(
     rawText: text.substring(0, 500), // First 500 chars for reference
   };
   
-  // Add octave bands if found
-  if (octaveBandMatches.length > 0) {
+  // Add one-third octave bands if found, otherwise octave bands
+  // (octave pairs picked up from a 1/3 octave table would be misread)
+  if (thirdOctaveMatches.length > 0) {
+    try {
+      result.thirdOctaveBands = JSON.parse(thirdOctaveMatches[0].value as string);
+    } catch {
+      // Ignore parse errors
+    }
+  } else if (octaveBandMatches.length > 0) {
     try {
       result.octaveBands = JSON.parse(octaveBandMatches[0].value as string);
     } catch {
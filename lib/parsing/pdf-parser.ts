@@ -84,7 +84,7 @@ export async function parsePDF(file: File): Promise<ParseResult> {
     const soundData = extractAllSoundData(text, file.name);
     
     // Check what was found
-    if (!soundData.octaveBands && !soundData.ncRating && !soundData.dba && !soundData.sones) {
+    if (!soundData.octaveBands && !soundData.thirdOctaveBands && !soundData.ncRating && !soundData.dba && !soundData.sones) {
       warnings.push("No sound data patterns found in the PDF text.");
     } else {
       data.push(soundData);
@@ -97,6 +97,12 @@ export async function parsePDF(file: File): Promise<ParseResult> {
         warnings.push(`Only found ${bandCount} of 8 octave band values.`);
       }
     }
+    if (soundData.thirdOctaveBands) {
+      const bandCount = Object.keys(soundData.thirdOctaveBands).length;
+      if (bandCount < 27) {
+        warnings.push(`Only found ${bandCount} of 27 one-third octave band values.`);
+      }
+    }
     
     return {
       success: data.length > 0,
@@ -135,7 +141,7 @@ export function parseText(text: string, sourceName: string = "pasted text"): Par
     const soundData = extractAllSoundData(text, sourceName);
     
     // Check what was found
-    if (!soundData.octaveBands && !soundData.ncRating && !soundData.dba && !soundData.sones) {
+    if (!soundData.octaveBands && !soundData.thirdOctaveBands && !soundData.ncRating && !soundData.dba && !soundData.sones) {
       warnings.push("No sound data patterns recognized in the text.");
     } else {
       data.push(soundData);
@@ -15,6 +15,7 @@ export interface ExtractedSoundData {
 
   // Octave band data (most valuable)
   octaveBands?: {
+    hz31_5?: number;
     hz63?: number;
     hz125?: number;
     hz250?: number;
@@ -23,8 +24,13 @@ export interface ExtractedSoundData {
     hz2000?: number;
     hz4000?: number;
     hz8000?: number;
+    hz16000?: number;
   };
 
+  // One-third octave band data, 25 Hz - 10 kHz
+  // Keys follow the octave band format with "_" for decimals (hz25, hz31_5, ... hz10000)
+  thirdOctaveBands?: Record<string, number>;
+
   // Single-number ratings
   ncRating?: number;
   dba?: number;
@@ -34,7 +34,9 @@ Analyze this image and extract ALL sound-related data. Common formats include:
 **SOUND DATA SCHEDULES (Tables)**
 Look for tables with:
 - Headers showing frequencies: 63, 125, 250, 500, 1000, 2000, 4000, 8000 Hz
+- Some tables add a 31.5 Hz column (before 63) and/or a 16000 Hz column (after 8000)
 - Row labels like: Supply, Return, Casing, Inlet, Outlet, Discharge, Radiated
+- Operating points: VAV terminal schedules repeat rows at several inlet pressures (e.g., 0.5, 1.0, 1.5 in. w.g.) and airflows
 - Equipment identifiers: AHU-1, RTU-2, FCU-3, etc.
 - Sound Power Level (LW, Lw, SWL) in dB re 10^-12 W
 - Sound Pressure Level (LP, Lp, SPL) in dB
@@ -60,6 +62,7 @@ Return the data as JSON in this exact format:
       "componentName": "<component like Supply, Return, Casing, Inlet, Outlet, or null>",
       "dataType": "soundPower" | "soundPressure" | "unknown",
       "octaveBands": {
+        "hz31_5": <number or null>,
         "hz63": <number or null>,
         "hz125": <number or null>,
         "hz250": <number or null>,
@@ -67,11 +70,14 @@ Return the data as JSON in this exact format:
         "hz1000": <number or null>,
         "hz2000": <number or null>,
         "hz4000": <number or null>,
-        "hz8000": <number or null>
+        "hz8000": <number or null>,
+        "hz16000": <number or null>
       },
       "ncRating": <number or null>,
       "dba": <number or null>,
-      "sones": <number or null>
+      "sones": <number or null>,
+      "airflow": <string like "450 CFM" or null>,
+      "inletPressure": <string like "1.0 in. w.g." or null>
     }
   ],
   "equipment": {
@@ -87,7 +93,7 @@ IMPORTANT RULES:
 1. Extract EACH ROW of tabular data as a separate entry in "equipmentRows"
 2. If the table shows multiple components (Supply, Return, Casing), create one entry per row
 3. If values have decimals, include them
-4. If a cell is empty or has a dash, use null
+4. If a cell is empty or has a dash, use null (including 31.5 Hz and 16000 Hz when the table has no such column)
 5. Only return valid JSON, no other text
 6. Even if you can only extract partial data, return what you find with appropriate confidence level`;
 
@@ -202,6 +208,7 @@ export async function extractSoundDataFromImage(
           const hasAnyBand = Object.values(bands).some((v) => v !== null);
           if (hasAnyBand) {
             extractedData.octaveBands = {
+              hz31_5: bands.hz31_5 ?? undefined,
               hz63: bands.hz63 ?? undefined,
               hz125: bands.hz125 ?? undefined,
               hz250: bands.hz250 ?? undefined,
@@ -210,6 +217,7 @@ export async function extractSoundDataFromImage(
               hz2000: bands.hz2000 ?? undefined,
               hz4000: bands.hz4000 ?? undefined,
               hz8000: bands.hz8000 ?? undefined,
+              hz16000: bands.hz16000 ?? undefined,
             };
           }
         }
@@ -225,6 +233,14 @@ export async function extractSoundDataFromImage(
           extractedData.sones = row.sones;
         }
 
+        // Add the operating point the row was rated at
+        if (row.airflow || row.inletPressure) {
+          extractedData.conditions = {
+            airflow: row.airflow || undefined,
+            staticPressure: row.inletPressure || undefined,
+          };
+        }
+
         // Check if this row has any useful data
         const hasData =
           extractedData.octaveBands ||
@@ -252,6 +268,7 @@ export async function extractSoundDataFromImage(
       const hasAnyBand = Object.values(bands).some((v) => v !== null);
       if (hasAnyBand) {
         extractedData.octaveBands = {
+          hz31_5: bands.hz31_5 ?? undefined,
           hz63: bands.hz63 ?? undefined,
           hz125: bands.hz125 ?? undefined,
           hz250: bands.hz250 ?? undefined,
@@ -260,6 +277,7 @@ export async function extractSoundDataFromImage(
           hz2000: bands.hz2000 ?? undefined,
           hz4000: bands.hz4000 ?? undefined,
           hz8000: bands.hz8000 ?? undefined,
+          hz16000: bands.hz16000 ?? undefined,
         };
       }
 